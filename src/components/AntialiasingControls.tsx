@@ -0,0 +1,78 @@
+import React from 'react';
+import { postProcessingSchema, ANTIALIASING_MSAA, ANTIALIASING_SMAA } from '../utils/postProcessingSchema';
+import type { AntialiasingSettings } from '../utils/postProcessingSchema';
+
+interface AntialiasingControlsProps {
+  antialiasing: AntialiasingSettings;
+  onChange: (settings: Partial<AntialiasingSettings>) => void;
+}
+
+const fields = postProcessingSchema.antialiasing;
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '5px',
+  background: '#333',
+  color: 'white',
+  border: '1px solid #555',
+  borderRadius: '4px',
+};
+
+const AntialiasingControls: React.FC<AntialiasingControlsProps> = ({ antialiasing, onChange }) => (
+  <>
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>Mode:</label>
+      <select
+        value={antialiasing.mode}
+        onChange={(e) => onChange({ mode: parseInt(e.target.value) as AntialiasingSettings['mode'] })}
+        style={selectStyle}
+      >
+        {fields.mode.options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+
+    {antialiasing.mode === ANTIALIASING_MSAA && (
+      <div style={{ marginBottom: '15px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>Samples:</label>
+        <select
+          value={antialiasing.msaaSamples}
+          onChange={(e) => onChange({ msaaSamples: parseInt(e.target.value) as AntialiasingSettings['msaaSamples'] })}
+          style={selectStyle}
+        >
+          {fields.msaaSamples.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    )}
+
+    {antialiasing.mode === ANTIALIASING_SMAA && (
+      <div style={{ marginBottom: '15px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>Quality:</label>
+        <select
+          value={antialiasing.smaaPreset}
+          onChange={(e) => onChange({ smaaPreset: parseInt(e.target.value) as AntialiasingSettings['smaaPreset'] })}
+          style={selectStyle}
+        >
+          {fields.smaaPreset.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    )}
+
+    <div style={{ fontSize: '10px', color: '#888', marginBottom: '15px' }}>
+      MSAA gives the cleanest chrome edges but costs the most on weak GPUs; FXAA is the cheapest.
+    </div>
+  </>
+);
+
+export default AntialiasingControls;
@@ -0,0 +1,102 @@
+import React, { Suspense, useMemo } from 'react';
+import * as THREE from 'three';
+import { useGLTF } from '@react-three/drei';
+import ErrorBoundary from './ErrorBoundary';
+import { postProcessingSchema } from '../utils/postProcessingSchema';
+
+interface BloomMeshPickerProps {
+  meshNames: string[];
+  onChange: (meshNames: string[]) => void;
+}
+
+// The model the hero scene renders; mesh names survive its clone. Loading it
+// through useGLTF shares ChromeObject's cached copy instead of fetching it again.
+const MODEL_PATH = '/objects/sao-logo.glb';
+
+const noteStyle: React.CSSProperties = { color: '#888', fontSize: '10px' };
+
+const smallButtonStyle: React.CSSProperties = {
+  background: '#4b5563',
+  color: 'white',
+  border: 'none',
+  padding: '4px 8px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '10px',
+};
+
+// Suspends until the model is loaded
+const ModelMeshList: React.FC<BloomMeshPickerProps> = ({ meshNames, onChange }) => {
+  const { scene } = useGLTF(MODEL_PATH);
+
+  const available = useMemo(() => {
+    const names = new Set<string>();
+    scene.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.name) names.add(child.name);
+    });
+    return Array.from(names).slice(0, postProcessingSchema.bloom.meshNames.maxItems);
+  }, [scene]);
+
+  const selected = new Set(meshNames);
+  // Names saved with the look that this model doesn't have
+  const missing = meshNames.filter((name) => !available.includes(name));
+
+  const toggle = (name: string, checked: boolean) => {
+    onChange(checked ? [...meshNames, name] : meshNames.filter((existing) => existing !== name));
+  };
+
+  return (
+    <div style={{ marginBottom: '15px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+        <span style={{ flex: 1 }}>Meshes: {meshNames.length} selected</span>
+        <button onClick={() => onChange(available)} disabled={available.length === 0} style={smallButtonStyle}>
+          All
+        </button>
+        <button onClick={() => onChange([])} disabled={meshNames.length === 0} style={smallButtonStyle}>
+          None
+        </button>
+      </div>
+
+      <div style={{ maxHeight: '140px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+        {available.length === 0 && <div style={noteStyle}>The model has no named meshes</div>}
+
+        {available.map((name) => (
+          <label key={name} style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '11px' }}>
+            <input
+              type="checkbox"
+              checked={selected.has(name)}
+              onChange={(e) => toggle(name, e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            {name}
+          </label>
+        ))}
+
+        {missing.map((name) => (
+          <label key={name} style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '11px', color: '#888' }}>
+            <input
+              type="checkbox"
+              checked
+              onChange={() => toggle(name, false)}
+              style={{ marginRight: '8px' }}
+            />
+            {name} (not in scene)
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const BloomMeshPicker: React.FC<BloomMeshPickerProps> = (props) => (
+  <ErrorBoundary
+    name="Bloom mesh list"
+    fallback={<div style={{ ...noteStyle, color: '#fca5a5', marginBottom: '15px' }}>Model unavailable</div>}
+  >
+    <Suspense fallback={<div style={{ ...noteStyle, marginBottom: '15px' }}>Loading model…</div>}>
+      <ModelMeshList {...props} />
+    </Suspense>
+  </ErrorBoundary>
+);
+
+export default BloomMeshPicker;
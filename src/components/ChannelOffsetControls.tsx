@@ -0,0 +1,96 @@
+import React from 'react';
+import { postProcessingSchema, rangeProps } from '../utils/postProcessingSchema';
+
+interface ChannelOffsetControlsProps {
+  label: string;
+  offset: [number, number];
+  onChange: (offset: [number, number]) => void;
+  // Edit as angle + magnitude instead of X/Y
+  polar: boolean;
+  // In radial mode X points away from the center and Y around it
+  radial: boolean;
+}
+
+const offsetField = postProcessingSchema.chromaticAberration.redOffset;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+const ChannelOffsetControls: React.FC<ChannelOffsetControlsProps> = ({ label, offset, onChange, polar, radial }) => {
+  const [x, y] = offset;
+
+  if (polar) {
+    const magnitude = Math.hypot(x, y);
+    const angle = magnitude > 0 ? (Math.atan2(y, x) * 180) / Math.PI : 0;
+    const setPolar = (nextAngle: number, nextMagnitude: number) => {
+      const radians = (nextAngle * Math.PI) / 180;
+      onChange([
+        round(Math.cos(radians) * nextMagnitude, offsetField.step / 10),
+        round(Math.sin(radians) * nextMagnitude, offsetField.step / 10),
+      ]);
+    };
+
+    return (
+      <>
+        <div style={{ marginBottom: '10px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>
+            {label} Angle: {angle.toFixed(0)}°{radial && ' (0° = outward)'}
+          </label>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            step={1}
+            value={angle}
+            onChange={(e) => setPolar(parseFloat(e.target.value), magnitude)}
+            style={{ width: '100%' }}
+          />
+        </div>
+        <div style={{ marginBottom: '10px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>
+            {label} Magnitude: {magnitude.toFixed(3)}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={offsetField.max}
+            step={offsetField.step}
+            value={magnitude}
+            onChange={(e) => setPolar(angle, parseFloat(e.target.value))}
+            style={{ width: '100%' }}
+          />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div style={{ marginBottom: '10px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>
+          {label} {radial ? 'Outward' : 'X'}: {x.toFixed(3)}
+        </label>
+        <input
+          type="range"
+          {...rangeProps(offsetField)}
+          value={x}
+          onChange={(e) => onChange([parseFloat(e.target.value), y])}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ marginBottom: '10px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>
+          {label} {radial ? 'Around' : 'Y'}: {y.toFixed(3)}
+        </label>
+        <input
+          type="range"
+          {...rangeProps(offsetField)}
+          value={y}
+          onChange={(e) => onChange([x, parseFloat(e.target.value)])}
+          style={{ width: '100%' }}
+        />
+      </div>
+    </>
+  );
+};
+
+export default ChannelOffsetControls;
@@ -2,6 +2,8 @@ import React, { useRef, useMemo, useState, useEffect } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { useGLTF, Environment } from '@react-three/drei'
 import * as THREE from 'three'
+import { LOGO_LAYER } from '../utils/postProcessingSchema'
+import { useIdle } from '../hooks/usePowerSaving'
 
 interface ChromeObjectProps {
   position?: [number, number, number]
@@ -11,45 +13,23 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
   const meshRef = useRef<THREE.Group>(null)
   const { scene } = useGLTF('/objects/sao-logo.glb')
   const [mouse, setMouse] = useState({ x: 0, y: 0 })
-  const [isIdle, setIsIdle] = useState(false)
-  const lastMoveTime = useRef(Date.now())
-  const idleTimeout = useRef<number | null>(null)
+  const { idle: isIdle } = useIdle()
+  // Animation time, advanced by capped frame deltas so pauses don't make the float jump
+  const floatTime = useRef(0)
 
-  // Track mouse movement with idle detection
+  // Track mouse movement
   useEffect(() => {
     const handleMouseMove = (event: MouseEvent) => {
-      const newMouse = {
+      setMouse({
         x: (event.clientX / window.innerWidth) * 2 - 1,
         y: -(event.clientY / window.innerHeight) * 2 + 1,
-      }
-      
-      setMouse(newMouse)
-      setIsIdle(false)
-      lastMoveTime.current = Date.now()
-      
-      // Clear existing timeout
-      if (idleTimeout.current) {
-        clearTimeout(idleTimeout.current)
-      }
-      
-      // Set new idle timeout
-      idleTimeout.current = setTimeout(() => {
-        setIsIdle(true)
-      }, 3000) // 3 seconds
+      })
     }
 
     window.addEventListener('mousemove', handleMouseMove)
     
-    // Initial idle timeout
-    idleTimeout.current = setTimeout(() => {
-      setIsIdle(true)
-    }, 3000)
-    
     return () => {
       window.removeEventListener('mousemove', handleMouseMove)
-      if (idleTimeout.current) {
-        clearTimeout(idleTimeout.current)
-      }
     }
   }, [])
 
@@ -82,6 +62,8 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
         child.material = realisticChromeMaterial
         child.castShadow = true
         child.receiveShadow = true
+        // Lets post-processing masks pick out the logo
+        child.layers.enable(LOGO_LAYER)
       }
     })
     
@@ -103,24 +85,29 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
   }, [clonedScene])
 
   // Enhanced cursor interaction and idle reset
-  useFrame((state) => {
+  useFrame((_, delta) => {
     if (meshRef.current) {
-      const time = state.clock.getElapsedTime()
+      // Idle rendering drops the frame rate, so ease per second rather than per frame
+      const frames = Math.min(delta, 0.1) * 60
+      floatTime.current += Math.min(delta, 0.1)
+      const time = floatTime.current
       
       if (isIdle) {
         // Smooth reset to neutral position when idle
         const targetRotationY = 0
         const targetRotationX = 0
+        const ease = 1 - Math.pow(1 - 0.02, frames)
         
-        meshRef.current.rotation.y += (targetRotationY - meshRef.current.rotation.y) * 0.02
-        meshRef.current.rotation.x += (targetRotationX - meshRef.current.rotation.x) * 0.02
+        meshRef.current.rotation.y += (targetRotationY - meshRef.current.rotation.y) * ease
+        meshRef.current.rotation.x += (targetRotationX - meshRef.current.rotation.x) * ease
              } else {
          // Enhanced cursor following - swapped controls
          const targetRotationX = mouse.x * 0.4 // Left/right mouse controls X-axis
          const targetRotationY = mouse.y * 0.6 // Up/down mouse controls Y-axis (horizontal spinning)
+         const ease = 1 - Math.pow(1 - 0.08, frames)
          
-         meshRef.current.rotation.x += (targetRotationX - meshRef.current.rotation.x) * 0.08
-         meshRef.current.rotation.y += (targetRotationY - meshRef.current.rotation.y) * 0.08
+         meshRef.current.rotation.x += (targetRotationX - meshRef.current.rotation.x) * ease
+         meshRef.current.rotation.y += (targetRotationY - meshRef.current.rotation.y) * ease
        }
       
              // Gentle floating animation (always active)
@@ -140,11 +127,13 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       <primitive object={centeredScene} />
       
-      {/* Clean lighting setup for chrome */}
+      {/* Clean lighting setup for chrome. Light names are the god rays
+          sources listed in GOD_RAYS_LIGHTS (postProcessingSchema) */}
       <ambientLight intensity={0.3} color="#ffffff" />
       
       {/* Main directional light */}
       <directionalLight
+        name="chrome-key-light"
         position={[5, 8, 5]}
         intensity={1.2}
         color="#ffffff"
@@ -162,6 +151,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Red accent */}
       <pointLight
+        name="chrome-red-accent"
         position={[4, 2, 4]}
         intensity={0.6}
         color="#ff4466"
@@ -170,6 +160,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Blue accent */}
       <pointLight
+        name="chrome-blue-accent"
         position={[-4, 2, 4]}
         intensity={0.6}
         color="#4466ff"
@@ -178,6 +169,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Green accent */}
       <pointLight
+        name="chrome-green-accent"
         position={[0, -3, 4]}
         intensity={0.4}
         color="#44ff66"
@@ -186,6 +178,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Purple accent */}
       <pointLight
+        name="chrome-purple-accent"
         position={[0, 4, -2]}
         intensity={0.3}
         color="#8844ff"
@@ -194,6 +187,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Cyan rim light */}
       <pointLight
+        name="chrome-cyan-rim"
         position={[-3, 0, -3]}
         intensity={0.5}
         color="#44ffff"
@@ -202,6 +196,7 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Orange warm light */}
       <pointLight
+        name="chrome-orange-warm"
         position={[3, -2, -2]}
         intensity={0.4}
         color="#ff6644"
@@ -210,12 +205,14 @@ const ChromeObject: React.FC<ChromeObjectProps> = () => {
       
       {/* Additional fill lights */}
       <directionalLight
+        name="chrome-left-fill"
         position={[-3, 4, 2]}
         intensity={1.0}
         color="#ffffff"
       />
       
       <directionalLight
+        name="chrome-front-fill"
         position={[0, -2, 5]}
         intensity={0.8}
         color="#ffffff"
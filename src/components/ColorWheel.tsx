@@ -0,0 +1,92 @@
+import React, { useRef } from 'react';
+import { postProcessingSchema, rangeProps } from '../utils/postProcessingSchema';
+
+interface ColorWheelProps {
+  label: string;
+  // Puck position in the unit disc; the angle picks the hue, the radius the strength
+  position: [number, number];
+  luminance: number;
+  onChange: (position: [number, number]) => void;
+  onLuminanceChange: (luminance: number) => void;
+}
+
+const WHEEL_SIZE = 72;
+
+// Hue at each angle, matching ColorGradeEffect: red to the right, going counter-clockwise
+const hueStops = Array.from({ length: 13 }, (_, i) => {
+  const angle = i * 30;
+  return `hsl(${(450 - angle) % 360}, 100%, 50%) ${angle}deg`;
+}).join(', ');
+
+const ColorWheel: React.FC<ColorWheelProps> = ({ label, position, luminance, onChange, onLuminanceChange }) => {
+  const wheelRef = useRef<HTMLDivElement>(null);
+
+  const updateFromPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = wheelRef.current!.getBoundingClientRect();
+    let x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    let y = 1 - ((event.clientY - rect.top) / rect.height) * 2;
+    const radius = Math.hypot(x, y);
+    if (radius > 1) {
+      x /= radius;
+      y /= radius;
+    }
+    onChange([Math.round(x * 100) / 100, Math.round(y * 100) / 100]);
+  };
+
+  const [x, y] = position;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px', fontSize: '10px' }}>
+      <span>{label}</span>
+      <div
+        ref={wheelRef}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          updateFromPointer(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) updateFromPointer(e);
+        }}
+        onDoubleClick={() => onChange([0, 0])}
+        title="Drag to tint, double-click to reset"
+        style={{
+          position: 'relative',
+          width: `${WHEEL_SIZE}px`,
+          height: `${WHEEL_SIZE}px`,
+          borderRadius: '50%',
+          background: `radial-gradient(circle, #888 0%, rgba(136, 136, 136, 0) 70%), conic-gradient(${hueStops})`,
+          cursor: 'crosshair',
+          touchAction: 'none',
+        }}
+      >
+        <div
+          style={{
+            position: 'absolute',
+            left: `${((x + 1) / 2) * 100}%`,
+            top: `${((1 - y) / 2) * 100}%`,
+            width: '8px',
+            height: '8px',
+            marginLeft: '-4px',
+            marginTop: '-4px',
+            borderRadius: '50%',
+            border: '2px solid white',
+            boxShadow: '0 0 2px black',
+            pointerEvents: 'none',
+          }}
+        />
+      </div>
+      <input
+        type="range"
+        {...rangeProps(postProcessingSchema.colorGrade.liftLuminance)}
+        value={luminance}
+        onChange={(e) => onLuminanceChange(parseFloat(e.target.value))}
+        onDoubleClick={() => onLuminanceChange(0)}
+        aria-label={`${label} luminance`}
+        style={{ width: `${WHEEL_SIZE}px` }}
+      />
+      <span style={{ color: '#888' }}>{luminance >= 0 ? '+' : ''}{luminance.toFixed(2)}</span>
+    </div>
+  );
+};
+
+export default ColorWheel;
@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+
+interface ContextLossHandlerProps {
+  onLost: () => void;
+  onRestored: () => void;
+}
+
+/**
+ * Reports the renderer's WebGL context being lost and restored. Renders
+ * nothing; mount it inside the Canvas, outside anything that remounts on
+ * restore.
+ */
+const ContextLossHandler: React.FC<ContextLossHandlerProps> = ({ onLost, onRestored }) => {
+  const gl = useThree((state) => state.gl);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const handleLost = (event: Event) => {
+      // Without this the browser never offers the context back
+      event.preventDefault();
+      console.warn('WebGL context lost; waiting for the browser to restore it');
+      onLost();
+    };
+
+    canvas.addEventListener('webglcontextlost', handleLost);
+    canvas.addEventListener('webglcontextrestored', onRestored);
+    return () => {
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      canvas.removeEventListener('webglcontextrestored', onRestored);
+    };
+  }, [gl, onLost, onRestored]);
+
+  return null;
+};
+
+export default ContextLossHandler;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { BLEND_FUNCTION_OPTIONS, EFFECT_LABELS } from '../utils/postProcessingSchema';
+import type { EffectStackEntry } from '../utils/postProcessingSchema';
+
+interface EffectStackControlsProps {
+  entries: EffectStackEntry[];
+  onChange: (entries: EffectStackEntry[]) => void;
+}
+
+const moveEntry = (entries: EffectStackEntry[], from: number, to: number) => {
+  const reordered = [...entries];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
+
+const arrowButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  background: 'transparent',
+  color: enabled ? '#ccc' : '#555',
+  border: 'none',
+  padding: '0 2px',
+  cursor: enabled ? 'pointer' : 'default',
+  fontSize: '10px',
+  lineHeight: 1,
+});
+
+const EffectStackControls: React.FC<EffectStackControlsProps> = ({ entries, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const updateEntry = (index: number, changes: Partial<EffectStackEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= entries.length || from === to) return;
+    onChange(moveEntry(entries, from, to));
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div style={{ marginBottom: '25px' }}>
+      <h4 style={{ margin: '0 0 6px 0', color: '#968065', fontSize: '16px' }}>🧱 Effect Stack</h4>
+      <div style={{ fontSize: '10px', color: '#888', marginBottom: '10px' }}>
+        Drag to reorder; effects run top to bottom, each on the result of the ones above it.
+      </div>
+
+      {entries.map((entry, index) => (
+        <div
+          key={entry.id}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null) move(dragIndex, index);
+            endDrag();
+          }}
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'auto auto 1fr auto',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '5px 6px',
+            marginBottom: '3px',
+            background: dropIndex === index && dragIndex !== index ? 'rgba(150, 128, 101, 0.35)' : 'rgba(255, 255, 255, 0.06)',
+            borderRadius: '4px',
+            opacity: dragIndex === index ? 0.5 : entry.enabled ? 1 : 0.6,
+            fontSize: '11px',
+          }}
+        >
+          {/* Only the handle drags, so the slider and select inside the row work normally */}
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              // Firefox only starts a drag that carries data
+              e.dataTransfer.setData('text/plain', entry.id);
+              // Show the whole row under the pointer, not just the handle
+              const row = e.currentTarget.parentElement;
+              if (row) e.dataTransfer.setDragImage(row, 10, 10);
+              setDragIndex(index);
+            }}
+            onDragEnd={endDrag}
+            style={{ cursor: 'grab', color: '#888' }}
+            title="Drag to reorder"
+          >
+            ⠿
+          </span>
+          <input
+            type="checkbox"
+            checked={entry.enabled}
+            onChange={(e) => updateEntry(index, { enabled: e.target.checked })}
+            aria-label={`Enable ${EFFECT_LABELS[entry.id]}`}
+          />
+          <div>
+            <div>{EFFECT_LABELS[entry.id]}</div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '3px' }}>
+              <select
+                value={entry.blendFunction}
+                onChange={(e) => updateEntry(index, { blendFunction: Number(e.target.value) as EffectStackEntry['blendFunction'] })}
+                style={{
+                  background: '#333',
+                  color: 'white',
+                  border: '1px solid #555',
+                  borderRadius: '3px',
+                  fontSize: '10px',
+                }}
+              >
+                {BLEND_FUNCTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={entry.opacity}
+                onChange={(e) => updateEntry(index, { opacity: parseFloat(e.target.value) })}
+                aria-label={`${EFFECT_LABELS[entry.id]} opacity`}
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              <span style={{ color: '#888', width: '28px', textAlign: 'right' }}>{entry.opacity.toFixed(2)}</span>
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <button onClick={() => move(index, index - 1)} disabled={index === 0} aria-label="Move up" style={arrowButtonStyle(index > 0)}>
+              ▲
+            </button>
+            <button
+              onClick={() => move(index, index + 1)}
+              disabled={index === entries.length - 1}
+              aria-label="Move down"
+              style={arrowButtonStyle(index < entries.length - 1)}
+            >
+              ▼
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EffectStackControls;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ErrorBoundaryProps {
+  // What failed, for the console
+  name: string;
+  fallback: React.ReactNode;
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+}
+
+/**
+ * Shows `fallback` instead of a blank page when its children throw, e.g.
+ * when the WebGL context can't be created or a model fails to load.
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): ErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.error(`${this.props.name} failed, showing its fallback:`, error);
+  }
+
+  render() {
+    return this.state.hasError ? this.props.fallback : this.props.children;
+  }
+}
+
+export default ErrorBoundary;
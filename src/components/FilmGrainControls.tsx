@@ -0,0 +1,96 @@
+import React from 'react';
+import { postProcessingSchema, rangeProps } from '../utils/postProcessingSchema';
+import type { FilmGrainSettings } from '../utils/postProcessingSchema';
+
+interface FilmGrainControlsProps {
+  filmGrain: FilmGrainSettings;
+  onChange: (settings: Partial<FilmGrainSettings>) => void;
+}
+
+const fields = postProcessingSchema.filmGrain;
+
+const FilmGrainControls: React.FC<FilmGrainControlsProps> = ({ filmGrain, onChange }) => (
+  <>
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Intensity: {filmGrain.intensity.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.intensity)}
+        value={filmGrain.intensity}
+        onChange={(e) => onChange({ intensity: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Grain Size: {filmGrain.size.toFixed(1)}px
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.size)}
+        value={filmGrain.size}
+        onChange={(e) => onChange({ size: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Animation: {filmGrain.animationRate === 0 ? 'Frozen' : `${filmGrain.animationRate} fps`}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.animationRate)}
+        value={filmGrain.animationRate}
+        onChange={(e) => onChange({ animationRate: parseInt(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={filmGrain.monochrome}
+          onChange={(e) => onChange({ monochrome: e.target.checked })}
+          style={{ marginRight: '8px' }}
+        />
+        Monochrome Grain
+      </label>
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Shadow Response: {filmGrain.shadows.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.shadows)}
+        value={filmGrain.shadows}
+        onChange={(e) => onChange({ shadows: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Highlight Response: {filmGrain.highlights.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.highlights)}
+        value={filmGrain.highlights}
+        onChange={(e) => onChange({ highlights: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+      <div style={{ fontSize: '10px', color: '#888', marginTop: '4px' }}>
+        Midtones always get the full intensity
+      </div>
+    </div>
+  </>
+);
+
+export default FilmGrainControls;
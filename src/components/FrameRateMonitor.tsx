@@ -0,0 +1,43 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+
+interface FrameRateMonitorProps {
+  onSample: (fps: number) => void;
+  // Called with every frame's duration, for consumers that keep their own statistics
+  onFrame?: (frameTime: number, now: number) => void;
+  // How often to report, in milliseconds
+  interval?: number;
+}
+
+/**
+ * Counts rendered frames and reports the average frame rate at a fixed
+ * interval. Renders nothing; mount it inside the Canvas.
+ */
+const FrameRateMonitor: React.FC<FrameRateMonitorProps> = ({ onSample, onFrame, interval = 1000 }) => {
+  const frames = useRef(0);
+  const windowStart = useRef<number | null>(null);
+  const lastFrame = useRef<number | null>(null);
+
+  useFrame(() => {
+    const now = performance.now();
+    if (lastFrame.current !== null) onFrame?.(now - lastFrame.current, now);
+    lastFrame.current = now;
+
+    if (windowStart.current === null) {
+      windowStart.current = now;
+      return;
+    }
+
+    frames.current++;
+    const elapsed = now - windowStart.current;
+    if (elapsed >= interval) {
+      onSample(Math.round((frames.current * 1000) / elapsed));
+      frames.current = 0;
+      windowStart.current = now;
+    }
+  });
+
+  return null;
+};
+
+export default FrameRateMonitor;
@@ -0,0 +1,23 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+
+interface FrameThrottleProps {
+  fps: number;
+}
+
+/**
+ * Requests frames at a fixed rate for a Canvas with frameloop="demand".
+ * Renders nothing; mount it inside the Canvas.
+ */
+const FrameThrottle: React.FC<FrameThrottleProps> = ({ fps }) => {
+  const invalidate = useThree((state) => state.invalidate);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => invalidate(), 1000 / fps);
+    return () => clearInterval(interval);
+  }, [invalidate, fps]);
+
+  return null;
+};
+
+export default FrameThrottle;
@@ -1,200 +1,223 @@
-import React, { Suspense, useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
+import WebGL from 'three/examples/jsm/capabilities/WebGL.js';
 import ChromeObject from './ChromeObject';
 import PostProcessingEffects from './ToneMappingEffect';
-import type { PostProcessingSettings } from './ToneMappingEffect';
 import PostProcessingControls from './ToneMappingControls';
 import SettingsManager from './SettingsManager';
-import { ToneMappingMode } from 'postprocessing';
+import SharedLookBanner from './SharedLookBanner';
+import FrameRateMonitor from './FrameRateMonitor';
+import QualityReadout from './QualityReadout';
+import FrameThrottle from './FrameThrottle';
+import ErrorBoundary from './ErrorBoundary';
+import ContextLossHandler from './ContextLossHandler';
+import HeroFallback from './HeroFallback';
+import { defaultPostProcessingSettings, describeSettingsIssue } from '../utils/postProcessingSchema';
+import type { PostProcessingSettings } from '../utils/postProcessingSchema';
+import { migrateSettings, createSettingsEnvelope } from '../utils/settingsMigrations';
+import { diffSettings } from '../utils/settingsDiff';
+import { openRemoteWindow } from '../utils/remoteControl';
+import { useSettingsHistory, useUndoRedoShortcuts } from '../hooks/useSettingsHistory';
+import { useSharedLook } from '../hooks/useSharedLook';
+import { useSettingsSync } from '../hooks/useSettingsSync';
+import { useRemoteHost } from '../hooks/useRemoteControl';
+import { useSnapshotRecorder } from '../hooks/useSettingsSnapshots';
+import { useQualityGovernor } from '../hooks/useQualityGovernor';
+import { usePowerSaving } from '../hooks/usePowerSaving';
+import type { PowerState } from '../hooks/usePowerSaving';
 import './Hero3D.css';
 
 const POST_PROCESSING_STORAGE_KEY = 'saohouse-postprocessing-settings';
-const SETTINGS_VERSION = '1.0';
+const UNMIGRATED_STORAGE_KEY = 'saohouse-postprocessing-settings-unmigrated';
 
 // Set to true when you need to adjust post-processing settings
 const SHOW_POST_PROCESSING_CONTROLS = true;
 
-const defaultPostProcessingSettings: PostProcessingSettings = {
-  toneMapping: {
-    mode: ToneMappingMode.ACES_FILMIC,
-    exposure: 1.2,
-    whitePoint: 16.0,
-    middleGrey: 0.6,
-    adaptation: 1.0,
-  },
-  bloom: {
-    intensity: 0.8,
-    luminanceThreshold: 0.85,
-    luminanceSmoothing: 0.4,
-    mipmapBlur: true,
-    opacity: 0.8,
-  },
-  chromaticAberration: {
-    offset: [0.015, 0.008],
-    redOffset: [0.015, 0.0],     // Red channel moves right
-    greenOffset: [0.0, 0.0],     // Green channel stays centered
-    blueOffset: [-0.015, 0.0],   // Blue channel moves left
-    radialModulation: false,
-    modulationOffset: 0.0,
-    blur: 0.002,
-  },
-  filmGrain: {
-    intensity: 0.3,
-    opacity: 0.15,
-  },
-  ssao: {
-    intensity: 0.5,
-    radius: 1.0,
-    bias: 0.05,
-    samples: 16,
-    rings: 4,
-    distanceThreshold: 1.0,
-    distanceFalloff: 0.5,
-  },
-  blur: {
-    enabled: false,
-    intensity: 0.5,
-    kernelSize: 35.5,
-    iterations: 1,
-  },
-  depthOfField: {
-    enabled: false,
-    focusDistance: 5.0,
-    focalLength: 0.1,
-    bokehScale: 3.0,
-  },
-  lensDistortion: {
-    enabled: false,
-    barrelDistortion: 0.0,
-    chromaticAberration: 0.0,
-    vignette: 0.0,
-    center: [0.5, 0.5],
-  }
+// Frame rate once the visitor has gone idle; the logo only floats by then
+const IDLE_FPS = 15;
+
+const FRAME_LOOPS: Record<PowerState, 'always' | 'demand' | 'never'> = {
+  active: 'always',
+  idle: 'demand', // Driven by FrameThrottle at IDLE_FPS
+  paused: 'never',
 };
 
-const Hero3D: React.FC = () => {
-  // Load saved settings from localStorage or use defaults
-  const [postProcessingSettings, setPostProcessingSettings] = useState<PostProcessingSettings>(() => {
-    try {
-      const saved = localStorage.getItem(POST_PROCESSING_STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        
-        // Check if this is a versioned settings object
-        if (parsed.version === SETTINGS_VERSION && parsed.settings) {
-          return parsed.settings;
-        }
-        
-        // Handle migration from old structures
-        if (parsed.mode !== undefined) {
-          // Very old structure - tone mapping only
-          return {
-            toneMapping: parsed,
-            bloom: defaultPostProcessingSettings.bloom,
-            chromaticAberration: defaultPostProcessingSettings.chromaticAberration,
-            filmGrain: defaultPostProcessingSettings.filmGrain,
-            ssao: defaultPostProcessingSettings.ssao,
-            blur: defaultPostProcessingSettings.blur,
-            depthOfField: defaultPostProcessingSettings.depthOfField,
-            lensDistortion: defaultPostProcessingSettings.lensDistortion,
-          };
-        } else if (!parsed.chromaticAberration || !parsed.filmGrain || !parsed.ssao || !parsed.blur || !parsed.depthOfField || !parsed.lensDistortion) {
-          // Partial structure - missing new effects
-          return {
-            toneMapping: parsed.toneMapping || defaultPostProcessingSettings.toneMapping,
-            bloom: parsed.bloom || defaultPostProcessingSettings.bloom,
-            chromaticAberration: parsed.chromaticAberration || defaultPostProcessingSettings.chromaticAberration,
-            filmGrain: parsed.filmGrain || defaultPostProcessingSettings.filmGrain,
-            ssao: parsed.ssao || defaultPostProcessingSettings.ssao,
-            blur: parsed.blur || defaultPostProcessingSettings.blur,
-            depthOfField: parsed.depthOfField || defaultPostProcessingSettings.depthOfField,
-            lensDistortion: parsed.lensDistortion || defaultPostProcessingSettings.lensDistortion,
-          };
-        } else if (parsed.chromaticAberration && !parsed.chromaticAberration.redOffset) {
-          // Handle migration from old chromatic aberration to RGB channels
-          const migratedChromaticAberration = {
-            ...defaultPostProcessingSettings.chromaticAberration,
-            ...parsed.chromaticAberration,
-            redOffset: [parsed.chromaticAberration.offset[0] || 0.015, 0.0] as [number, number],
-            greenOffset: [0.0, 0.0] as [number, number],
-            blueOffset: [-(parsed.chromaticAberration.offset[0] || 0.015), 0.0] as [number, number],
-          };
-          
-          return {
-            ...parsed,
-            chromaticAberration: migratedChromaticAberration,
-            depthOfField: parsed.depthOfField || defaultPostProcessingSettings.depthOfField,
-            lensDistortion: parsed.lensDistortion || defaultPostProcessingSettings.lensDistortion,
-          };
-        }
-        return {
-          ...parsed,
-          depthOfField: parsed.depthOfField || defaultPostProcessingSettings.depthOfField,
-          lensDistortion: parsed.lensDistortion || defaultPostProcessingSettings.lensDistortion,
-        };
-      }
+interface ActivePreset {
+  name: string;
+  settings: PostProcessingSettings;
+}
+
+// Load saved settings from localStorage, migrating older schema versions
+const loadSavedSettings = (): PostProcessingSettings => {
+  try {
+    const saved = localStorage.getItem(POST_PROCESSING_STORAGE_KEY);
+    if (!saved) {
       return defaultPostProcessingSettings;
-    } catch (error) {
-      console.warn('Failed to load post-processing settings from localStorage:', error);
+    }
+
+    const result = migrateSettings(JSON.parse(saved));
+    if (!result.ok) {
+      // Keep the unreadable payload around so it isn't lost when defaults are saved over it
+      console.warn('Could not migrate saved post-processing settings:', result.error);
+      localStorage.setItem(UNMIGRATED_STORAGE_KEY, saved);
       return defaultPostProcessingSettings;
     }
+
+    if (result.issues.length > 0) {
+      // Loading can't prompt, so repair what we can and keep the original for reference
+      console.warn('Repaired invalid post-processing settings:', result.issues.map(describeSettingsIssue));
+      localStorage.setItem(UNMIGRATED_STORAGE_KEY, saved);
+    }
+    return result.settings;
+  } catch (error) {
+    console.warn('Failed to load post-processing settings from localStorage:', error);
+    return defaultPostProcessingSettings;
+  }
+};
+
+const Hero3D: React.FC = () => {
+  // Every change goes through the history so it can be undone
+  const settingsHistory = useSettingsHistory(loadSavedSettings);
+  const savedSettings = settingsHistory.present;
+
+  // A #look= share link is shown on top of the saved settings until kept or discarded
+  const {
+    sharedLook,
+    error: sharedLookError,
+    pending: sharedLookPending,
+    dismiss: dismissSharedLook,
+  } = useSharedLook();
+  const postProcessingSettings = sharedLook ?? savedSettings;
+  useUndoRedoShortcuts(settingsHistory.undo, settingsHistory.redo, !sharedLook);
+
+  // Other tabs' edits land in this tab's history so they can be undone here too
+  const settingsSync = useSettingsSync({
+    settings: savedSettings,
+    onRemoteSettings: (remoteSettings) => {
+      settingsHistory.push(remoteSettings, { label: 'Synced from another tab' });
+    },
+    storageKey: POST_PROCESSING_STORAGE_KEY,
   });
 
   const [showControls, setShowControls] = useState(false);
+  // The preset the current look was loaded from, kept to tell when it's been edited
+  const [activePreset, setActivePreset] = useState<ActivePreset | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // three.js needs WebGL 2; without it only the static hero is shown
+  const [webglAvailable] = useState(() => WebGL.isWebGL2Available());
+  // A lost context stops rendering; on restore the whole scene remounts under a new key
+  const [contextLost, setContextLost] = useState(false);
+  const [contextRevision, setContextRevision] = useState(0);
+  const handleContextLost = useCallback(() => setContextLost(true), []);
+  const handleContextRestored = useCallback(() => {
+    setContextLost(false);
+    setContextRevision((revision) => revision + 1);
+  }, []);
+
+  // Render less once the visitor goes idle, and not at all while nobody can see the canvas
+  const powerSaving = usePowerSaving(canvasRef);
+  const { markActive } = powerSaving;
+
+  // Rendering quality steps down on slow devices and back up when there's headroom
+  const qualityGovernor = useQualityGovernor(powerSaving.state !== 'active');
 
   // Save settings to localStorage whenever they change (with version protection)
   useEffect(() => {
     try {
-      const versionedSettings = {
-        version: SETTINGS_VERSION,
-        timestamp: new Date().toISOString(),
-        settings: postProcessingSettings
-      };
+      const versionedSettings = createSettingsEnvelope(savedSettings);
       localStorage.setItem(POST_PROCESSING_STORAGE_KEY, JSON.stringify(versionedSettings));
-      
-      // Also create an automatic backup
-      const autoBackupKey = 'saohouse-settings-auto-backup';
-      localStorage.setItem(autoBackupKey, JSON.stringify(versionedSettings));
     } catch (error) {
       console.warn('Failed to save post-processing settings to localStorage:', error);
     }
-  }, [postProcessingSettings]);
+  }, [savedSettings]);
+
+  // Changes from another tab or the remote window should show at full frame rate
+  useEffect(() => {
+    markActive();
+  }, [postProcessingSettings, markActive]);
+
+  // Keep a time-stamped trail of every settled change, labelled like the undo history
+  useSnapshotRecorder(savedSettings, settingsHistory.entries[settingsHistory.index].label);
+
+  const keepSharedLook = () => {
+    if (sharedLook) {
+      settingsHistory.push(sharedLook, { label: 'Kept shared look', coalesce: false });
+    }
+    dismissSharedLook();
+  };
 
   const handleSettingsChange = (newSettings: PostProcessingSettings) => {
     console.log('Settings changed:', newSettings); // Debug log
-    setPostProcessingSettings(newSettings);
+    // Editing a shared look means keeping it
+    if (sharedLook) keepSharedLook();
+    settingsHistory.push(newSettings);
   };
 
-  const handleSettingsLoad = (newSettings: PostProcessingSettings) => {
+  const handleSettingsLoad = (newSettings: PostProcessingSettings, source = 'Loaded settings', presetName?: string) => {
     console.log('Settings loaded:', newSettings); // Debug log
     
     // Force a complete state update by creating a new object
     const cleanSettings = JSON.parse(JSON.stringify(newSettings));
-    setPostProcessingSettings(cleanSettings);
+    if (sharedLook) dismissSharedLook();
+    settingsHistory.push(cleanSettings, { label: source, coalesce: false });
+    setActivePreset(presetName ? { name: presetName, settings: cleanSettings } : null);
     
     // Force localStorage to update with the new settings immediately
     setTimeout(() => {
-      const versionedSettings = {
-        version: SETTINGS_VERSION,
-        timestamp: new Date().toISOString(),
-        settings: cleanSettings
-      };
+      const versionedSettings = createSettingsEnvelope(cleanSettings);
       localStorage.setItem(POST_PROCESSING_STORAGE_KEY, JSON.stringify(versionedSettings));
     }, 100);
   };
 
+  // A pop-out remote window takes over all dev UI while it's open
+  const remoteState = useMemo(() => ({
+    settings: postProcessingSettings,
+    presetName: activePreset?.name ?? null,
+    presetModified: activePreset !== null && diffSettings(activePreset.settings, postProcessingSettings).length > 0,
+  }), [postProcessingSettings, activePreset]);
+  const { hostId: remoteHostId, remoteConnected, reportFps } = useRemoteHost({
+    state: remoteState,
+    onSettingsChange: handleSettingsChange,
+    onSettingsLoad: handleSettingsLoad,
+  });
+
+  if (!webglAvailable) {
+    return (
+      <div className="hero-3d-container">
+        <HeroFallback />
+      </div>
+    );
+  }
+
+  // Wait for a share link to decode rather than flash the saved look first
+  if (sharedLookPending) {
+    return <div className="hero-3d-container" />;
+  }
+
   return (
     <div className="hero-3d-container">
-      {/* Settings Manager - Always available */}
-      <SettingsManager 
-        currentSettings={postProcessingSettings}
-        onSettingsLoad={handleSettingsLoad}
-      />
+      {(sharedLook || sharedLookError) && (
+        <SharedLookBanner
+          error={sharedLookError}
+          onKeep={keepSharedLook}
+          onDiscard={dismissSharedLook}
+        />
+      )}
+
+      {/* Settings Manager - Always available unless a remote window has taken over */}
+      {!remoteConnected && (
+        <SettingsManager 
+          currentSettings={postProcessingSettings}
+          onSettingsLoad={handleSettingsLoad}
+          canvasRef={canvasRef}
+        />
+      )}
 
       {/* Development Controls - Only shown when SHOW_POST_PROCESSING_CONTROLS is true */}
-      {SHOW_POST_PROCESSING_CONTROLS && (
+      {SHOW_POST_PROCESSING_CONTROLS && !remoteConnected && (
         <>
           <button
             onClick={() => setShowControls(!showControls)}
@@ -218,57 +241,110 @@ const Hero3D: React.FC = () => {
             {showControls ? 'Hide' : 'Show'} Post-Processing Controls
           </button>
 
+          <button
+            onClick={() => {
+              setShowControls(false);
+              openRemoteWindow(remoteHostId);
+            }}
+            title="Open the controls in a separate window that drives this page"
+            style={{
+              position: 'fixed',
+              top: '60px',
+              left: '20px',
+              background: '#4b5563',
+              color: 'white',
+              border: 'none',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              zIndex: 1001,
+              fontFamily: 'Inter, sans-serif',
+              fontSize: '11px',
+              opacity: 0.7,
+            }}
+          >
+            🪟 Pop Out Controls
+          </button>
+
+          <QualityReadout
+            tierIndex={qualityGovernor.tierIndex}
+            sample={qualityGovernor.sample}
+            preferences={qualityGovernor.preferences}
+            onAdaptiveChange={qualityGovernor.setAdaptive}
+            onManualTierChange={qualityGovernor.setManualTier}
+            onTogglePinned={qualityGovernor.togglePinned}
+          />
+
           {showControls && (
             <PostProcessingControls 
               onSettingsChange={handleSettingsChange}
               initialSettings={postProcessingSettings}
+              history={sharedLook ? undefined : settingsHistory}
+              sync={{ following: settingsSync.following, onFollowingChange: settingsSync.setFollowing }}
             />
           )}
         </>
       )}
 
-      <Canvas
-        camera={{ position: [0, 0, 5], fov: 50 }}
-        dpr={Math.min(window.devicePixelRatio, 2)} // Handle high-DPI displays
-        style={{ 
-          width: '100vw', 
-          height: '100vh',
-          opacity: 0,
-          animation: 'heroFadeIn 1.2s cubic-bezier(0.4, 0, 0.2, 1) 0.3s forwards'
-        }}
-        gl={{ 
-          toneMapping: THREE.NoToneMapping, // Disable default tone mapping to use our custom one
-          outputColorSpace: THREE.SRGBColorSpace,
-          // Enhanced settings for better quality
-          powerPreference: "high-performance",
-          antialias: true, // Enable antialias for smoother edges
-          stencil: false,
-          depth: true, // Enable depth buffer for proper rendering
-        }}
-      >
-        <Suspense fallback={null}>
-          <ChromeObject position={[0, 0, 0]} />
-          <OrbitControls 
-            enableZoom={false}
-            enablePan={false}
-            enableRotate={true}
-            autoRotate={false}
-            autoRotateSpeed={0}
-          />
-          
-          {/* Enhanced Post-Processing Effects using direct pmndrs/postprocessing */}
-          <PostProcessingEffects 
-            toneMapping={postProcessingSettings.toneMapping}
-            bloom={postProcessingSettings.bloom}
-            chromaticAberration={postProcessingSettings.chromaticAberration}
-            filmGrain={postProcessingSettings.filmGrain}
-            ssao={postProcessingSettings.ssao}
-            blur={postProcessingSettings.blur}
-            depthOfField={postProcessingSettings.depthOfField}
-            lensDistortion={postProcessingSettings.lensDistortion}
-          />
-        </Suspense>
-      </Canvas>
+      <ErrorBoundary name="3D scene" fallback={<HeroFallback />}>
+        <Canvas
+          ref={canvasRef}
+          frameloop={contextLost ? 'never' : FRAME_LOOPS[powerSaving.state]}
+          camera={{ position: [0, 0, 5], fov: 50 }}
+          dpr={Math.min(window.devicePixelRatio, qualityGovernor.quality.maxDpr)} // Handle high-DPI displays
+          style={{ 
+            width: '100vw', 
+            height: '100vh',
+            opacity: 0,
+            animation: 'heroFadeIn 1.2s cubic-bezier(0.4, 0, 0.2, 1) 0.3s forwards'
+          }}
+          gl={{ 
+            toneMapping: THREE.NoToneMapping, // Disable default tone mapping to use our custom one
+            outputColorSpace: THREE.SRGBColorSpace,
+            // Enhanced settings for better quality
+            powerPreference: "high-performance",
+            antialias: false, // The composer anti-aliases its own buffers, per the antialiasing settings
+            stencil: false,
+            depth: true, // Enable depth buffer for proper rendering
+          }}
+        >
+          <FrameRateMonitor onSample={reportFps} onFrame={qualityGovernor.recordFrame} />
+          {powerSaving.state === 'idle' && <FrameThrottle fps={IDLE_FPS} />}
+          <ContextLossHandler onLost={handleContextLost} onRestored={handleContextRestored} />
+          {/* Keyed so a restored context gets a fresh environment map, composer and effects */}
+          <Suspense key={contextRevision} fallback={null}>
+            <ChromeObject position={[0, 0, 0]} />
+            <OrbitControls 
+              enableZoom={false}
+              enablePan={false}
+              enableRotate={true}
+              autoRotate={false}
+              autoRotateSpeed={0}
+            />
+            
+            {/* Enhanced Post-Processing Effects using direct pmndrs/postprocessing */}
+            <PostProcessingEffects 
+              toneMapping={postProcessingSettings.toneMapping}
+              bloom={postProcessingSettings.bloom}
+              chromaticAberration={postProcessingSettings.chromaticAberration}
+              filmGrain={postProcessingSettings.filmGrain}
+              ssao={postProcessingSettings.ssao}
+              blur={postProcessingSettings.blur}
+              depthOfField={postProcessingSettings.depthOfField}
+              lensDistortion={postProcessingSettings.lensDistortion}
+              vignette={postProcessingSettings.vignette}
+              godRays={postProcessingSettings.godRays}
+              colorGrade={postProcessingSettings.colorGrade}
+              lut={postProcessingSettings.lut}
+              antialiasing={postProcessingSettings.antialiasing}
+              effectStack={postProcessingSettings.effectStack}
+              quality={qualityGovernor.quality}
+            />
+          </Suspense>
+        </Canvas>
+      </ErrorBoundary>
+
+      {contextLost && <HeroFallback overlay />}
     </div>
   );
 };
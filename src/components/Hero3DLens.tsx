@@ -4,9 +4,10 @@ import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import ChromeObject from './ChromeObject';
 import LensDistortionEffect from './LensDistortionEffect';
-import type { PostProcessingSettings } from './LensDistortionEffect';
+import { defaultLensPipelineSettings } from './LensDistortionEffect';
+import type { LensPipelineSettings } from './LensDistortionEffect';
 import LensDistortionControls from './LensDistortionControls';
-import { ToneMappingMode } from 'postprocessing';
+import { sanitizeSection } from '../utils/postProcessingSchema';
 import './Hero3D.css';
 
 const LENS_DISTORTION_STORAGE_KEY = 'saohouse-lens-distortion-settings';
@@ -14,62 +15,29 @@ const LENS_DISTORTION_STORAGE_KEY = 'saohouse-lens-distortion-settings';
 // Set to true when you need to adjust lens distortion settings
 const SHOW_LENS_DISTORTION_CONTROLS = true;
 
-const defaultLensDistortionSettings: PostProcessingSettings = {
-  lensDistortion: {
-    barrelDistortion: 0.1,
-    chromaticAberration: 0.005,
-    vignette: 0.8,
-    center: [0.5, 0.5],
-  },
-  toneMapping: {
-    mode: ToneMappingMode.ACES_FILMIC,
-    exposure: 1.2,
-    whitePoint: 16.0,
-    middleGrey: 0.6,
-    adaptation: 1.0,
-  },
-  bloom: {
-    intensity: 0.8,
-    luminanceThreshold: 0.85,
-    luminanceSmoothing: 0.4,
-    mipmapBlur: true,
-    opacity: 0.8,
-  },
-  filmGrain: {
-    intensity: 0.3,
-    opacity: 0.15,
-  },
-  ssao: {
-    intensity: 0.5,
-    radius: 1.0,
-    bias: 0.05,
-    samples: 16,
-    rings: 4,
-    distanceThreshold: 1.0,
-    distanceFalloff: 0.5,
-  }
-};
-
 const Hero3DLens: React.FC = () => {
   // Load saved settings from localStorage or use defaults
-  const [lensSettings, setLensSettings] = useState<PostProcessingSettings>(() => {
+  const [lensSettings, setLensSettings] = useState<LensPipelineSettings>(() => {
     try {
       const saved = localStorage.getItem(LENS_DISTORTION_STORAGE_KEY);
       if (saved) {
         const parsed = JSON.parse(saved);
-        // Merge with defaults to ensure all properties exist
+        // Validate against the schema, keeping the lens defaults for anything missing
         return {
-          lensDistortion: { ...defaultLensDistortionSettings.lensDistortion, ...parsed.lensDistortion },
-          toneMapping: { ...defaultLensDistortionSettings.toneMapping, ...parsed.toneMapping },
-          bloom: { ...defaultLensDistortionSettings.bloom, ...parsed.bloom },
-          filmGrain: { ...defaultLensDistortionSettings.filmGrain, ...parsed.filmGrain },
-          ssao: { ...defaultLensDistortionSettings.ssao, ...parsed.ssao },
+          lensDistortion: sanitizeSection('lensDistortion', { ...defaultLensPipelineSettings.lensDistortion, ...parsed.lensDistortion }),
+          toneMapping: sanitizeSection('toneMapping', { ...defaultLensPipelineSettings.toneMapping, ...parsed.toneMapping }),
+          bloom: sanitizeSection('bloom', { ...defaultLensPipelineSettings.bloom, ...parsed.bloom }),
+          filmGrain: sanitizeSection('filmGrain', { ...defaultLensPipelineSettings.filmGrain, ...parsed.filmGrain }),
+          ssao: sanitizeSection('ssao', { ...defaultLensPipelineSettings.ssao, ...parsed.ssao }),
+          vignette: sanitizeSection('vignette', { ...defaultLensPipelineSettings.vignette, ...parsed.vignette }),
+          antialiasing: sanitizeSection('antialiasing', { ...defaultLensPipelineSettings.antialiasing, ...parsed.antialiasing }),
+          effectStack: sanitizeSection('effectStack', parsed.effectStack ?? defaultLensPipelineSettings.effectStack),
         };
       }
-      return defaultLensDistortionSettings;
+      return defaultLensPipelineSettings;
     } catch (error) {
       console.warn('Failed to load lens distortion settings from localStorage:', error);
-      return defaultLensDistortionSettings;
+      return defaultLensPipelineSettings;
     }
   });
 
@@ -84,7 +52,7 @@ const Hero3DLens: React.FC = () => {
     }
   }, [lensSettings]);
 
-  const handleSettingsChange = (newSettings: PostProcessingSettings) => {
+  const handleSettingsChange = (newSettings: LensPipelineSettings) => {
     setLensSettings(newSettings);
   };
 
@@ -159,6 +127,9 @@ const Hero3DLens: React.FC = () => {
             bloom={lensSettings.bloom}
             filmGrain={lensSettings.filmGrain}
             ssao={lensSettings.ssao}
+            vignette={lensSettings.vignette}
+            antialiasing={lensSettings.antialiasing}
+            effectStack={lensSettings.effectStack}
           />
         </Suspense>
       </Canvas>
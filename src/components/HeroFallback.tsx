@@ -0,0 +1,22 @@
+import React from 'react';
+
+// Pre-rendered chrome logo (sao-logo.glb, from the page's camera angle) on a transparent background
+const FALLBACK_LOGO_SRC = '/images/sao-logo-hero.png';
+
+interface HeroFallbackProps {
+  // Covers the canvas rather than replacing it, e.g. while a lost context is being restored
+  overlay?: boolean;
+}
+
+/**
+ * The hero without WebGL: the logo as a plain image, placed where the 3D
+ * logo sits. The page's FloatingButtons render alongside Hero3D, so they
+ * stay available either way.
+ */
+const HeroFallback: React.FC<HeroFallbackProps> = ({ overlay = false }) => (
+  <div className={overlay ? 'hero-fallback hero-fallback-overlay' : 'hero-fallback'}>
+    <img className="hero-fallback-logo" src={FALLBACK_LOGO_SRC} alt="SaoHouse" draggable={false} />
+  </div>
+);
+
+export default HeroFallback;
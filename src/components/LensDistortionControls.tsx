@@ -1,53 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { ToneMappingMode } from 'postprocessing';
-import type { PostProcessingSettings, LensDistortionSettings } from './LensDistortionEffect';
+import { defaultLensPipelineSettings } from './LensDistortionEffect';
+import type { LensPipelineSettings } from './LensDistortionEffect';
+import FilmGrainControls from './FilmGrainControls';
+import ToneCurveControls from './ToneCurveControls';
+import AntialiasingControls from './AntialiasingControls';
+import { postProcessingSchema, rangeProps, getStackEntry, TONE_MAPPING_CUSTOM } from '../utils/postProcessingSchema';
+import type { EffectId, LensDistortionSettings } from '../utils/postProcessingSchema';
 
 interface LensDistortionControlsProps {
-  onSettingsChange: (settings: PostProcessingSettings) => void;
-  initialSettings?: PostProcessingSettings;
+  onSettingsChange: (settings: LensPipelineSettings) => void;
+  initialSettings?: LensPipelineSettings;
 }
 
 const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({ 
   onSettingsChange,
   initialSettings
 }) => {
-  const defaultSettings: PostProcessingSettings = {
-    lensDistortion: {
-      barrelDistortion: 0.1,
-      chromaticAberration: 0.005,
-      vignette: 0.8,
-      center: [0.5, 0.5],
-    },
-    toneMapping: {
-      mode: ToneMappingMode.ACES_FILMIC,
-      exposure: 1.2,
-      whitePoint: 16.0,
-      middleGrey: 0.6,
-      adaptation: 1.0,
-    },
-    bloom: {
-      intensity: 0.8,
-      luminanceThreshold: 0.85,
-      luminanceSmoothing: 0.4,
-      mipmapBlur: true,
-      opacity: 0.8,
-    },
-    filmGrain: {
-      intensity: 0.3,
-      opacity: 0.15,
-    },
-    ssao: {
-      intensity: 0.5,
-      radius: 1.0,
-      bias: 0.05,
-      samples: 16,
-      rings: 4,
-      distanceThreshold: 1.0,
-      distanceFalloff: 0.5,
-    }
-  };
+  const defaultSettings = defaultLensPipelineSettings;
 
-  const [settings, setSettings] = useState<PostProcessingSettings>(() => {
+  const [settings, setSettings] = useState<LensPipelineSettings>(() => {
     if (initialSettings) {
       return {
         lensDistortion: { ...defaultSettings.lensDistortion, ...initialSettings.lensDistortion },
@@ -55,6 +26,9 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
         bloom: { ...defaultSettings.bloom, ...initialSettings.bloom },
         filmGrain: { ...defaultSettings.filmGrain, ...initialSettings.filmGrain },
         ssao: { ...defaultSettings.ssao, ...initialSettings.ssao },
+        vignette: { ...defaultSettings.vignette, ...initialSettings.vignette },
+        antialiasing: { ...defaultSettings.antialiasing, ...initialSettings.antialiasing },
+        effectStack: { ...defaultSettings.effectStack, ...initialSettings.effectStack },
       };
     }
     return defaultSettings;
@@ -69,6 +43,9 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
         bloom: { ...defaultSettings.bloom, ...initialSettings.bloom },
         filmGrain: { ...defaultSettings.filmGrain, ...initialSettings.filmGrain },
         ssao: { ...defaultSettings.ssao, ...initialSettings.ssao },
+        vignette: { ...defaultSettings.vignette, ...initialSettings.vignette },
+        antialiasing: { ...defaultSettings.antialiasing, ...initialSettings.antialiasing },
+        effectStack: { ...defaultSettings.effectStack, ...initialSettings.effectStack },
       });
     }
   }, [initialSettings]);
@@ -82,7 +59,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const updateToneMappingSettings = (newSettings: Partial<PostProcessingSettings['toneMapping']>) => {
+  const updateToneMappingSettings = (newSettings: Partial<LensPipelineSettings['toneMapping']>) => {
     const updated = { 
       ...settings, 
       toneMapping: { ...settings.toneMapping, ...newSettings }
@@ -91,7 +68,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const updateBloomSettings = (newSettings: Partial<PostProcessingSettings['bloom']>) => {
+  const updateBloomSettings = (newSettings: Partial<LensPipelineSettings['bloom']>) => {
     const updated = { 
       ...settings, 
       bloom: { ...settings.bloom, ...newSettings }
@@ -100,7 +77,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const updateFilmGrainSettings = (newSettings: Partial<PostProcessingSettings['filmGrain']>) => {
+  const updateFilmGrainSettings = (newSettings: Partial<LensPipelineSettings['filmGrain']>) => {
     const updated = { 
       ...settings, 
       filmGrain: { ...settings.filmGrain, ...newSettings }
@@ -109,7 +86,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const updateSSAOSettings = (newSettings: Partial<PostProcessingSettings['ssao']>) => {
+  const updateSSAOSettings = (newSettings: Partial<LensPipelineSettings['ssao']>) => {
     const updated = { 
       ...settings, 
       ssao: { ...settings.ssao, ...newSettings }
@@ -118,14 +95,36 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const toneMappingModes = [
-    { value: ToneMappingMode.LINEAR, label: 'Linear' },
-    { value: ToneMappingMode.REINHARD, label: 'Reinhard' },
-    { value: ToneMappingMode.REINHARD2, label: 'Reinhard2' },
-    { value: ToneMappingMode.REINHARD2_ADAPTIVE, label: 'Reinhard2 Adaptive' },
-    { value: ToneMappingMode.OPTIMIZED_CINEON, label: 'Optimized Cineon' },
-    { value: ToneMappingMode.ACES_FILMIC, label: 'ACES Filmic' },
-  ];
+  const updateAntialiasingSettings = (newSettings: Partial<LensPipelineSettings['antialiasing']>) => {
+    const updated = {
+      ...settings,
+      antialiasing: { ...settings.antialiasing, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateVignetteSettings = (newSettings: Partial<LensPipelineSettings['vignette']>) => {
+    const updated = { 
+      ...settings, 
+      vignette: { ...settings.vignette, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateEffectOpacity = (id: EffectId, opacity: number) => {
+    const updated = {
+      ...settings,
+      effectStack: {
+        entries: settings.effectStack.entries.map((entry) => (entry.id === id ? { ...entry, opacity } : entry)),
+      },
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const toneMappingModes = postProcessingSchema.toneMapping.mode.options;
 
   const resetToDefaults = () => {
     setSettings(defaultSettings);
@@ -181,9 +180,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="-0.5"
-            max="0.5"
-            step="0.01"
+            {...rangeProps(postProcessingSchema.lensDistortion.barrelDistortion)}
             value={settings.lensDistortion.barrelDistortion}
             onChange={(e) => updateLensDistortionSettings({ barrelDistortion: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -199,9 +196,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="0.02"
-            step="0.001"
+            {...rangeProps(postProcessingSchema.lensDistortion.chromaticAberration)}
             value={settings.lensDistortion.chromaticAberration}
             onChange={(e) => updateLensDistortionSettings({ chromaticAberration: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -217,9 +212,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="2.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.lensDistortion.vignette)}
             value={settings.lensDistortion.vignette}
             onChange={(e) => updateLensDistortionSettings({ vignette: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -232,9 +225,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.01"
+            {...rangeProps(postProcessingSchema.lensDistortion.center)}
             value={settings.lensDistortion.center[0]}
             onChange={(e) => updateLensDistortionSettings({ 
               center: [parseFloat(e.target.value), settings.lensDistortion.center[1]] 
@@ -249,9 +240,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.01"
+            {...rangeProps(postProcessingSchema.lensDistortion.center)}
             value={settings.lensDistortion.center[1]}
             onChange={(e) => updateLensDistortionSettings({ 
               center: [settings.lensDistortion.center[0], parseFloat(e.target.value)] 
@@ -265,32 +254,19 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
       <div style={{ marginBottom: '25px' }}>
         <h4 style={{ margin: '0 0 15px 0', color: '#c4a47c', fontSize: '16px' }}>🎞️ Film Grain</h4>
         
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px' }}>
-            Intensity: {settings.filmGrain.intensity.toFixed(2)}
-          </label>
-          <input
-            type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
-            value={settings.filmGrain.intensity}
-            onChange={(e) => updateFilmGrainSettings({ intensity: parseFloat(e.target.value) })}
-            style={{ width: '100%' }}
-          />
-        </div>
+        <FilmGrainControls filmGrain={settings.filmGrain} onChange={updateFilmGrainSettings} />
 
         <div style={{ marginBottom: '15px' }}>
           <label style={{ display: 'block', marginBottom: '5px' }}>
-            Opacity: {settings.filmGrain.opacity.toFixed(2)}
+            Opacity: {getStackEntry(settings.effectStack, 'filmGrain').opacity.toFixed(2)}
           </label>
           <input
             type="range"
-            min="0.0"
-            max="0.5"
-            step="0.01"
-            value={settings.filmGrain.opacity}
-            onChange={(e) => updateFilmGrainSettings({ opacity: parseFloat(e.target.value) })}
+            min={0}
+            max={1}
+            step={0.01}
+            value={getStackEntry(settings.effectStack, 'filmGrain').opacity}
+            onChange={(e) => updateEffectOpacity('filmGrain', parseFloat(e.target.value))}
             style={{ width: '100%' }}
           />
         </div>
@@ -306,9 +282,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="3.0"
-            step="0.1"
+            {...rangeProps(postProcessingSchema.bloom.intensity)}
             value={settings.bloom.intensity}
             onChange={(e) => updateBloomSettings({ intensity: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -317,15 +291,15 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
 
         <div style={{ marginBottom: '15px' }}>
           <label style={{ display: 'block', marginBottom: '5px' }}>
-            Opacity: {settings.bloom.opacity.toFixed(2)}
+            Opacity: {getStackEntry(settings.effectStack, 'bloom').opacity.toFixed(2)}
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
-            value={settings.bloom.opacity}
-            onChange={(e) => updateBloomSettings({ opacity: parseFloat(e.target.value) })}
+            min={0}
+            max={1}
+            step={0.05}
+            value={getStackEntry(settings.effectStack, 'bloom').opacity}
+            onChange={(e) => updateEffectOpacity('bloom', parseFloat(e.target.value))}
             style={{ width: '100%' }}
           />
         </div>
@@ -341,9 +315,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.intensity)}
             value={settings.ssao.intensity}
             onChange={(e) => updateSSAOSettings({ intensity: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -356,9 +328,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="2.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.radius)}
             value={settings.ssao.radius}
             onChange={(e) => updateSSAOSettings({ radius: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -366,6 +336,37 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
         </div>
       </div>
 
+      {/* Vignette Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#7f8c8d', fontSize: '16px' }}>🌘 Vignette</h4>
+        
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>
+            Darkness: {settings.vignette.darkness.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            {...rangeProps(postProcessingSchema.vignette.darkness)}
+            value={settings.vignette.darkness}
+            onChange={(e) => updateVignetteSettings({ darkness: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>
+            Offset: {settings.vignette.offset.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            {...rangeProps(postProcessingSchema.vignette.offset)}
+            value={settings.vignette.offset}
+            onChange={(e) => updateVignetteSettings({ offset: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </div>
+      </div>
+
       {/* Tone Mapping Controls */}
       <div style={{ marginBottom: '25px' }}>
         <h4 style={{ margin: '0 0 15px 0', color: '#968065', fontSize: '16px' }}>🎨 Tone Mapping</h4>
@@ -374,7 +375,7 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           <label style={{ display: 'block', marginBottom: '5px' }}>Mode</label>
           <select
             value={settings.toneMapping.mode}
-            onChange={(e) => updateToneMappingSettings({ mode: parseInt(e.target.value) as ToneMappingMode })}
+            onChange={(e) => updateToneMappingSettings({ mode: parseInt(e.target.value) as LensPipelineSettings['toneMapping']['mode'] })}
             style={{
               width: '100%',
               padding: '8px',
@@ -398,14 +399,22 @@ const LensDistortionControls: React.FC<LensDistortionControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="3.0"
-            step="0.1"
+            {...rangeProps(postProcessingSchema.toneMapping.exposure)}
             value={settings.toneMapping.exposure}
             onChange={(e) => updateToneMappingSettings({ exposure: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
           />
         </div>
+
+        {settings.toneMapping.mode === TONE_MAPPING_CUSTOM && (
+          <ToneCurveControls toneMapping={settings.toneMapping} onChange={updateToneMappingSettings} includeWhitePoint />
+        )}
+      </div>
+
+      {/* Anti-aliasing Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#5dade2', fontSize: '16px' }}>🔲 Anti-aliasing</h4>
+        <AntialiasingControls antialiasing={settings.antialiasing} onChange={updateAntialiasingSettings} />
       </div>
 
       <button
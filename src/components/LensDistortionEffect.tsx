@@ -7,14 +7,17 @@ import {
   EffectPass,
   ToneMappingEffect as CoreToneMappingEffect,
   BloomEffect as CoreBloomEffect,
-  NoiseEffect,
   SSAOEffect,
-  VignetteEffect,
-  ToneMappingMode,
-  BlendFunction,
-  KernelSize
+  KernelSize,
+  ToneMappingMode
 } from 'postprocessing';
 import * as THREE from 'three';
+import { VignetteEffect } from '../effects/VignetteEffect';
+import { FilmGrainEffect } from '../effects/FilmGrainEffect';
+import { ToneCurveEffect } from '../effects/ToneCurveEffect';
+import { AntialiasingStage, msaaSamples } from '../effects/AntialiasingStage';
+import { defaultPostProcessingSettings, getStackEntry, TONE_MAPPING_CUSTOM } from '../utils/postProcessingSchema';
+import type { PostProcessingSettings, LensDistortionSettings } from '../utils/postProcessingSchema';
 
 // Define shaders inline to avoid import issues
 const lensDistortionVertexShader = `
@@ -36,50 +39,43 @@ void main() {
 }
 `;
 
-export interface LensDistortionSettings {
-  barrelDistortion: number;
-  chromaticAberration: number;
-  vignette: number;
-  center: [number, number];
-}
-
-export interface PostProcessingSettings {
-  lensDistortion: LensDistortionSettings;
-  toneMapping: {
-    mode: ToneMappingMode;
-    exposure: number;
-    whitePoint: number;
-    middleGrey: number;
-    adaptation: number;
-  };
-  bloom: {
-    intensity: number;
-    luminanceThreshold: number;
-    luminanceSmoothing: number;
-    mipmapBlur: boolean;
-    opacity: number;
-  };
-  filmGrain: {
-    intensity: number;
-    opacity: number;
-  };
-  ssao: {
-    intensity: number;
-    radius: number;
-    bias: number;
-    samples: number;
-    rings: number;
-    distanceThreshold: number;
-    distanceFalloff: number;
-  };
-}
+// The lens pipeline only runs a subset of the shared post-processing settings
+export type LensPipelineSettings = Pick<
+  PostProcessingSettings,
+  'lensDistortion' | 'toneMapping' | 'bloom' | 'filmGrain' | 'ssao' | 'vignette' | 'antialiasing' | 'effectStack'
+>;
+
+export const defaultLensPipelineSettings: LensPipelineSettings = {
+  lensDistortion: {
+    ...defaultPostProcessingSettings.lensDistortion,
+    barrelDistortion: 0.1,
+    chromaticAberration: 0.005,
+    vignette: 0.8,
+  },
+  toneMapping: defaultPostProcessingSettings.toneMapping,
+  bloom: defaultPostProcessingSettings.bloom,
+  filmGrain: defaultPostProcessingSettings.filmGrain,
+  ssao: defaultPostProcessingSettings.ssao,
+  // A lighter vignette than the main hero's
+  vignette: {
+    ...defaultPostProcessingSettings.vignette,
+    darkness: 0.2,
+    offset: 0.2,
+  },
+  antialiasing: defaultPostProcessingSettings.antialiasing,
+  // Only the bloom and film grain opacities apply; this pipeline's order is fixed
+  effectStack: defaultPostProcessingSettings.effectStack,
+};
 
 interface LensDistortionEffectProps {
   lensDistortion: LensDistortionSettings;
-  toneMapping: PostProcessingSettings['toneMapping'];
-  bloom: PostProcessingSettings['bloom'];
-  filmGrain: PostProcessingSettings['filmGrain'];
-  ssao: PostProcessingSettings['ssao'];
+  toneMapping: LensPipelineSettings['toneMapping'];
+  bloom: LensPipelineSettings['bloom'];
+  filmGrain: LensPipelineSettings['filmGrain'];
+  ssao: LensPipelineSettings['ssao'];
+  vignette: LensPipelineSettings['vignette'];
+  antialiasing: LensPipelineSettings['antialiasing'];
+  effectStack: LensPipelineSettings['effectStack'];
 }
 
 const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
@@ -88,14 +84,19 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
   bloom,
   filmGrain,
   ssao,
+  vignette,
+  antialiasing,
+  effectStack,
 }) => {
   const { gl, scene, camera, size } = useThree();
   const composerRef = useRef<EffectComposer | null>(null);
   const lensPassRef = useRef<ShaderPass | null>(null);
+  const antialiasingRef = useRef<AntialiasingStage | null>(null);
   const effectsRef = useRef<{
     toneMapping: CoreToneMappingEffect;
+    toneCurve: ToneCurveEffect;
     bloom: CoreBloomEffect;
-    noise: NoiseEffect;
+    filmGrain: FilmGrainEffect;
     ssao: SSAOEffect;
     vignette: VignetteEffect;
   } | null>(null);
@@ -115,7 +116,7 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
   useEffect(() => {
     const composer = new EffectComposer(gl, {
       frameBufferType: THREE.HalfFloatType,
-      multisampling: 4,
+      multisampling: msaaSamples(antialiasing, gl),
     });
 
     // Add render pass
@@ -138,6 +139,10 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
       adaptationRate: toneMapping.adaptation,
     });
 
+    // Exposure and the custom curve run just ahead of the operator
+    const toneCurveEffect = new ToneCurveEffect();
+    gl.toneMappingExposure = 1;
+
     const bloomEffect = new CoreBloomEffect({
       intensity: bloom.intensity,
       kernelSize: KernelSize.LARGE,
@@ -145,13 +150,10 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
       luminanceSmoothing: bloom.luminanceSmoothing,
       mipmapBlur: bloom.mipmapBlur,
     });
-    bloomEffect.blendMode.opacity.value = bloom.opacity;
+    bloomEffect.blendMode.opacity.value = getStackEntry(effectStack, 'bloom').opacity;
 
-    const noiseEffect = new NoiseEffect({
-      blendFunction: BlendFunction.COLOR_DODGE,
-      premultiply: false,
-    });
-    noiseEffect.blendMode.opacity.value = filmGrain.opacity;
+    const filmGrainEffect = new FilmGrainEffect();
+    filmGrainEffect.blendMode.opacity.value = getStackEntry(effectStack, 'filmGrain').opacity;
 
     const ssaoEffect = new SSAOEffect(camera, undefined, {
       intensity: ssao.intensity,
@@ -165,16 +167,14 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
       color: new THREE.Color(0x000000),
     });
 
-    const vignetteEffect = new VignetteEffect({
-      darkness: 0.2,
-      offset: 0.2,
-    });
+    const vignetteEffect = new VignetteEffect();
 
     // Store effects for updates
     effectsRef.current = {
       toneMapping: toneMappingEffect,
+      toneCurve: toneCurveEffect,
       bloom: bloomEffect,
-      noise: noiseEffect,
+      filmGrain: filmGrainEffect,
       ssao: ssaoEffect,
       vignette: vignetteEffect,
     };
@@ -183,20 +183,26 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
     const effects = [
       ssaoEffect,
       bloomEffect,
-      noiseEffect,
+      filmGrainEffect,
       vignetteEffect,
+      toneCurveEffect,
       toneMappingEffect,
     ];
 
     const effectPass = new EffectPass(camera, ...effects);
     composer.addPass(effectPass);
 
+    const antialiasingStage = new AntialiasingStage(composer, camera);
+    antialiasingStage.apply(antialiasing);
+    antialiasingRef.current = antialiasingStage;
+
     composerRef.current = composer;
 
     return () => {
       composer.dispose();
       effectsRef.current = null;
       lensPassRef.current = null;
+      antialiasingRef.current = null;
     };
   }, [gl, scene, camera]);
 
@@ -210,8 +216,13 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
   // Update other effects when settings change
   useEffect(() => {
     if (!effectsRef.current) return;
-    const { toneMapping: tm } = effectsRef.current;
-    tm.mode = toneMapping.mode;
+    const { toneMapping: tm, toneCurve } = effectsRef.current;
+    const custom = toneMapping.mode === TONE_MAPPING_CUSTOM;
+    toneCurve.exposure = toneMapping.exposure;
+    toneCurve.customCurve = custom;
+    toneCurve.setCurve(toneMapping.curveContrast, toneMapping.curveShoulder, toneMapping.whitePoint, toneMapping.curveMidOut);
+    // Linear only clamps at unit exposure, leaving the custom curve's result as is
+    tm.mode = custom ? ToneMappingMode.LINEAR : toneMapping.mode;
     tm.adaptiveLuminanceMaterial.adaptationRate = toneMapping.adaptation;
   }, [toneMapping]);
 
@@ -219,15 +230,41 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
     if (!effectsRef.current) return;
     const { bloom: b } = effectsRef.current;
     b.intensity = bloom.intensity;
-    b.blendMode.opacity.value = bloom.opacity;
   }, [bloom]);
 
   useEffect(() => {
     if (!effectsRef.current) return;
-    const { noise } = effectsRef.current;
-    noise.blendMode.opacity.value = filmGrain.opacity;
+    const { filmGrain: grain } = effectsRef.current;
+    grain.intensity = filmGrain.intensity;
+    grain.size = filmGrain.size;
+    grain.animationRate = filmGrain.animationRate;
+    grain.monochrome = filmGrain.monochrome;
+    grain.shadows = filmGrain.shadows;
+    grain.highlights = filmGrain.highlights;
   }, [filmGrain]);
 
+  useEffect(() => {
+    if (!effectsRef.current) return;
+    const { bloom: b, filmGrain: grain } = effectsRef.current;
+    b.blendMode.opacity.value = getStackEntry(effectStack, 'bloom').opacity;
+    grain.blendMode.opacity.value = getStackEntry(effectStack, 'filmGrain').opacity;
+  }, [effectStack]);
+
+  useEffect(() => {
+    antialiasingRef.current?.apply(antialiasing);
+  }, [antialiasing]);
+
+  useEffect(() => {
+    if (!effectsRef.current) return;
+    const { vignette: v } = effectsRef.current;
+    v.technique = vignette.technique;
+    v.darkness = vignette.darkness;
+    v.offset = vignette.offset;
+    v.color.set(vignette.color);
+    v.aspect = vignette.aspect;
+    v.center.fromArray(vignette.center);
+  }, [vignette]);
+
   useEffect(() => {
     if (!effectsRef.current) return;
     const { ssao: s } = effectsRef.current;
@@ -235,11 +272,6 @@ const LensDistortionEffect: React.FC<LensDistortionEffectProps> = ({
     s.radius = ssao.radius;
   }, [ssao]);
 
-  // Update renderer exposure for tone mapping
-  useEffect(() => {
-    gl.toneMappingExposure = toneMapping.exposure;
-  }, [gl, toneMapping.exposure]);
-
   // Update resolution when size changes
   useEffect(() => {
     if (!lensPassRef.current) return;
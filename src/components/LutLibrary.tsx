@@ -0,0 +1,101 @@
+import React from 'react';
+import type { StoredLut } from '../utils/lutLibrary';
+import { useLutLibrary } from '../hooks/useLutLibrary';
+
+interface LutLibraryProps {
+  activeLutId: string;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onApply: (lut: StoredLut) => void;
+}
+
+const smallButtonStyle = (background: string): React.CSSProperties => ({
+  background,
+  color: 'white',
+  border: 'none',
+  padding: '4px 6px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '10px',
+});
+
+const LutLibrary: React.FC<LutLibraryProps> = ({ activeLutId, onImport, onApply }) => {
+  const { luts, loading, error, remove } = useLutLibrary();
+
+  const confirmDelete = (lut: StoredLut) => {
+    const inUse = lut.id === activeLutId ? ' The current look uses it and will render without a LUT.' : '';
+    if (window.confirm(`Delete LUT "${lut.name}"?${inUse}`)) {
+      remove(lut.id);
+    }
+  };
+
+  return (
+    <div>
+      <h4 style={{ margin: '0 0 10px 0', fontSize: '13px' }}>🎨 LUTs</h4>
+
+      <label style={{
+        background: '#d97706',
+        color: 'white',
+        border: 'none',
+        padding: '8px 12px',
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontSize: '11px',
+        textAlign: 'center',
+        display: 'block',
+        marginBottom: '10px',
+      }}>
+        🎨 Import .cube LUT
+        <input
+          type="file"
+          accept=".cube"
+          onChange={onImport}
+          style={{ display: 'none' }}
+        />
+      </label>
+
+      {error && (
+        <div style={{ color: '#fca5a5', fontSize: '10px', marginBottom: '8px' }}>
+          LUT library unavailable: {error}
+        </div>
+      )}
+
+      <div style={{ maxHeight: '180px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {loading && <div style={{ color: '#888', fontSize: '10px' }}>Loading LUTs…</div>}
+        {!loading && luts.length === 0 && (
+          <div style={{ color: '#888', fontSize: '10px' }}>No LUTs imported yet</div>
+        )}
+
+        {luts.map((lut) => (
+          <div
+            key={lut.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '6px 8px',
+              background: lut.id === activeLutId ? 'rgba(217, 119, 6, 0.25)' : 'rgba(255, 255, 255, 0.08)',
+              borderRadius: '4px',
+            }}
+          >
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {lut.title || lut.name}
+              </div>
+              <div style={{ color: '#777', fontSize: '9px', marginTop: '2px' }}>
+                {lut.kind} · {lut.size} points · {lut.name}
+              </div>
+            </div>
+            <button onClick={() => onApply(lut)} style={smallButtonStyle('#10b981')}>
+              Use
+            </button>
+            <button onClick={() => confirmDelete(lut)} aria-label="Delete LUT" style={smallButtonStyle('#ef4444')}>
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LutLibrary;
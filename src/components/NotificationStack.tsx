@@ -0,0 +1,111 @@
+import React from 'react';
+import type { AppNotification, NotificationKind } from '../hooks/useNotifications';
+import { describeSettingsIssue } from '../utils/postProcessingSchema';
+
+interface NotificationStackProps {
+  notifications: AppNotification[];
+  onDismiss: (id: number) => void;
+}
+
+const KIND_COLORS: Record<NotificationKind, string> = {
+  success: '#10b981',
+  info: '#06b6d4',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
+const KIND_ICONS: Record<NotificationKind, string> = {
+  success: '✅',
+  info: 'ℹ️',
+  warning: '⚠️',
+  error: '⛔',
+};
+
+// Long problem lists are cut short so a bad file can't flood the panel
+const MAX_VISIBLE_ISSUES = 8;
+
+const NotificationStack: React.FC<NotificationStackProps> = ({ notifications, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div aria-live="polite" style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          role={notification.kind === 'error' ? 'alert' : 'status'}
+          style={{
+            position: 'relative',
+            padding: '10px 28px 10px 10px',
+            background: 'rgba(255, 255, 255, 0.08)',
+            borderLeft: `3px solid ${KIND_COLORS[notification.kind]}`,
+            borderRadius: '4px',
+            fontSize: '11px',
+            lineHeight: '1.4',
+          }}
+        >
+          <button
+            onClick={() => onDismiss(notification.id)}
+            aria-label="Dismiss notification"
+            style={{
+              position: 'absolute',
+              top: '6px',
+              right: '6px',
+              background: 'transparent',
+              color: '#aaa',
+              border: 'none',
+              cursor: 'pointer',
+              fontSize: '12px',
+            }}
+          >
+            ✕
+          </button>
+
+          <div style={{ fontWeight: 600 }}>
+            {KIND_ICONS[notification.kind]} {notification.title}
+          </div>
+          {notification.message && (
+            <div style={{ color: '#ccc', marginTop: '2px', wordBreak: 'break-word' }}>{notification.message}</div>
+          )}
+
+          {notification.issues && notification.issues.length > 0 && (
+            <ul style={{ margin: '6px 0 0 0', paddingLeft: '16px', color: '#ddd', fontFamily: 'monospace', fontSize: '10px' }}>
+              {notification.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue) => (
+                <li key={`${issue.kind}-${issue.path}`}>{describeSettingsIssue(issue)}</li>
+              ))}
+              {notification.issues.length > MAX_VISIBLE_ISSUES && (
+                <li>…and {notification.issues.length - MAX_VISIBLE_ISSUES} more</li>
+              )}
+            </ul>
+          )}
+
+          {notification.actions && notification.actions.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '8px' }}>
+              {notification.actions.map((action) => (
+                <button
+                  key={action.label}
+                  onClick={() => {
+                    action.onClick();
+                    onDismiss(notification.id);
+                  }}
+                  style={{
+                    background: action.primary ? KIND_COLORS[notification.kind] : '#4b5563',
+                    color: 'white',
+                    border: 'none',
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '10px',
+                  }}
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationStack;
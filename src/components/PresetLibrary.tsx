@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import type { PostProcessingSettings } from '../utils/postProcessingSchema';
+import { captureThumbnail } from '../utils/presetLibrary';
+import type { SettingsPreset } from '../utils/presetLibrary';
+import { usePresetLibrary } from '../hooks/usePresetLibrary';
+
+interface PresetLibraryProps {
+  currentSettings: PostProcessingSettings;
+  onPresetApply: (settings: PostProcessingSettings, preset: SettingsPreset) => void;
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '6px 8px',
+  background: '#333',
+  color: 'white',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  fontFamily: 'Inter, sans-serif',
+  fontSize: '11px',
+};
+
+const smallButtonStyle = (background: string): React.CSSProperties => ({
+  background,
+  color: 'white',
+  border: 'none',
+  padding: '4px 6px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '10px',
+});
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ currentSettings, onPresetApply, canvasRef }) => {
+  const { presets, loading, error, save, rename, duplicate, remove } = usePresetLibrary();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const saveCurrentAsPreset = async () => {
+    setIsSaving(true);
+    const thumbnail = await captureThumbnail(canvasRef?.current ?? null);
+    const saved = await save({ name, description, thumbnail, settings: currentSettings });
+    if (saved) {
+      setName('');
+      setDescription('');
+    }
+    setIsSaving(false);
+  };
+
+  const startRename = (preset: SettingsPreset) => {
+    setRenamingId(preset.id);
+    setRenameValue(preset.name);
+  };
+
+  const commitRename = async () => {
+    if (renamingId && renameValue.trim()) {
+      await rename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const confirmDelete = (preset: SettingsPreset) => {
+    if (window.confirm(`Delete preset "${preset.name}"?`)) {
+      remove(preset.id);
+    }
+  };
+
+  return (
+    <div>
+      <h4 style={{ margin: '0 0 10px 0', fontSize: '13px' }}>🎞️ Preset Library</h4>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '12px' }}>
+        <input
+          type="text"
+          placeholder="Preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          style={inputStyle}
+        />
+        <textarea
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          style={{ ...inputStyle, resize: 'vertical' }}
+        />
+        <button
+          onClick={saveCurrentAsPreset}
+          disabled={isSaving}
+          style={{
+            background: '#968065',
+            color: 'white',
+            border: 'none',
+            padding: '8px 12px',
+            borderRadius: '4px',
+            cursor: isSaving ? 'wait' : 'pointer',
+            fontSize: '11px',
+            opacity: isSaving ? 0.6 : 1,
+          }}
+        >
+          {isSaving ? 'Saving…' : '⭐ Save Current as Preset'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#fca5a5', fontSize: '10px', marginBottom: '8px' }}>
+          Preset library unavailable: {error}
+        </div>
+      )}
+
+      <div style={{ maxHeight: '280px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {loading && <div style={{ color: '#888', fontSize: '10px' }}>Loading presets…</div>}
+        {!loading && presets.length === 0 && (
+          <div style={{ color: '#888', fontSize: '10px' }}>No presets saved yet</div>
+        )}
+
+        {presets.map((preset) => (
+          <div
+            key={preset.id}
+            style={{
+              display: 'flex',
+              gap: '8px',
+              padding: '8px',
+              background: 'rgba(255, 255, 255, 0.08)',
+              borderRadius: '4px',
+            }}
+          >
+            {preset.thumbnail ? (
+              <img
+                src={preset.thumbnail}
+                alt={`${preset.name} thumbnail`}
+                style={{ width: '64px', height: '40px', objectFit: 'cover', borderRadius: '3px', flexShrink: 0 }}
+              />
+            ) : (
+              <div style={{ width: '64px', height: '40px', background: '#222', borderRadius: '3px', flexShrink: 0 }} />
+            )}
+
+            <div style={{ flex: 1, minWidth: 0 }}>
+              {renamingId === preset.id ? (
+                <input
+                  type="text"
+                  value={renameValue}
+                  autoFocus
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  style={inputStyle}
+                />
+              ) : (
+                <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {preset.name}
+                </div>
+              )}
+              {preset.description && (
+                <div style={{ color: '#aaa', fontSize: '10px', marginTop: '2px' }}>{preset.description}</div>
+              )}
+              <div style={{ color: '#777', fontSize: '9px', marginTop: '2px' }}>
+                {new Date(preset.updatedAt).toLocaleString()}
+              </div>
+
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+                <button onClick={() => onPresetApply(preset.settings, preset)} style={smallButtonStyle('#10b981')}>
+                  Apply
+                </button>
+                <button onClick={() => startRename(preset)} style={smallButtonStyle('#6366f1')}>
+                  Rename
+                </button>
+                <button onClick={() => duplicate(preset.id)} style={smallButtonStyle('#06b6d4')}>
+                  Duplicate
+                </button>
+                <button onClick={() => confirmDelete(preset)} style={smallButtonStyle('#ef4444')}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PresetLibrary;
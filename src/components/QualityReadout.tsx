@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { QUALITY_OVERRIDES, QUALITY_TIERS } from '../utils/qualityGovernor';
+import type { QualityOverride, QualitySample } from '../utils/qualityGovernor';
+import type { QualityPreferences } from '../hooks/useQualityGovernor';
+
+interface QualityReadoutProps {
+  tierIndex: number;
+  sample: QualitySample | null;
+  preferences: QualityPreferences;
+  onAdaptiveChange: (adaptive: boolean) => void;
+  onManualTierChange: (tier: number) => void;
+  onTogglePinned: (key: QualityOverride) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px',
+  background: '#333',
+  color: 'white',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  fontSize: '11px',
+};
+
+/**
+ * Debug readout of the rendering quality tier and frame rate. Click it to
+ * switch between adaptive and manual tiers and to pin effects at full quality.
+ */
+const QualityReadout: React.FC<QualityReadoutProps> = ({
+  tierIndex,
+  sample,
+  preferences,
+  onAdaptiveChange,
+  onManualTierChange,
+  onTogglePinned,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: '20px',
+        left: '20px',
+        background: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '8px 12px',
+        borderRadius: '4px',
+        zIndex: 1001,
+        fontFamily: 'monospace',
+        fontSize: '11px',
+        width: expanded ? '200px' : undefined,
+      }}
+    >
+      <div
+        onClick={() => setExpanded(!expanded)}
+        title="Rendering quality; click for options"
+        style={{ cursor: 'pointer', userSelect: 'none' }}
+      >
+        {QUALITY_TIERS[tierIndex].label}
+        {preferences.adaptive ? ' (auto)' : ' (manual)'}
+        {preferences.pinned.length > 0 && ` +${preferences.pinned.length} pinned`}
+        {sample && ` · ${sample.fps.toFixed(0)} fps · ${sample.frameTime.toFixed(1)} ms`}
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '10px', fontFamily: 'Inter, sans-serif' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
+            <input
+              type="checkbox"
+              checked={preferences.adaptive}
+              onChange={(e) => onAdaptiveChange(e.target.checked)}
+            />
+            Adapt to frame rate
+          </label>
+
+          {!preferences.adaptive && (
+            <div style={{ marginBottom: '8px' }}>
+              <select
+                value={preferences.manualTier}
+                onChange={(e) => onManualTierChange(parseInt(e.target.value))}
+                style={selectStyle}
+              >
+                {QUALITY_TIERS.map((tier, index) => (
+                  <option key={tier.label} value={index}>
+                    {tier.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div style={{ color: '#888', marginBottom: '4px' }}>Keep at full quality:</div>
+          {QUALITY_OVERRIDES.map((override) => (
+            <label key={override.key} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={preferences.pinned.includes(override.key)}
+                onChange={() => onTogglePinned(override.key)}
+              />
+              {override.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityReadout;
@@ -0,0 +1,85 @@
+import React, { useEffect } from 'react';
+import PostProcessingControls from './ToneMappingControls';
+import SettingsManager from './SettingsManager';
+import { useRemoteClient } from '../hooks/useRemoteControl';
+
+const fpsColor = (fps: number) => (fps >= 55 ? '#10b981' : fps >= 30 ? '#f59e0b' : '#ef4444');
+
+/**
+ * Pop-out window that drives the hero page from a second screen.
+ * Opened with `?remote=<hero id>`; everything it shows comes from the hero over
+ * BroadcastChannel, and every edit is sent back the same way.
+ */
+const RemoteControlPanel: React.FC = () => {
+  const { heroConnected, heroState, fps, sendSettingsChange, sendSettingsLoad } = useRemoteClient();
+
+  useEffect(() => {
+    document.title = 'SaoHouse 3D · Remote Control';
+  }, []);
+
+  const presetLabel = heroState?.presetName
+    ? `${heroState.presetName}${heroState.presetModified ? ' (modified)' : ''}`
+    : 'Custom look';
+
+  return (
+    <div style={{
+      height: '100vh',
+      overflowY: 'auto',
+      background: '#1a1a1a',
+      color: 'white',
+      fontFamily: 'Inter, sans-serif',
+      fontSize: '12px',
+    }}>
+      <div style={{
+        position: 'sticky',
+        top: 0,
+        zIndex: 10,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '12px 20px',
+        background: 'rgba(0, 0, 0, 0.9)',
+        borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+      }}>
+        <span
+          title={heroConnected ? 'Connected to the hero page' : 'Waiting for the hero page'}
+          style={{
+            width: '8px',
+            height: '8px',
+            borderRadius: '50%',
+            background: heroConnected ? '#10b981' : '#6b7280',
+          }}
+        />
+        <strong style={{ color: '#968065' }}>Remote Control</strong>
+        <span style={{ color: '#ccc', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          ⭐ {presetLabel}
+        </span>
+        <span style={{ marginLeft: 'auto', fontFamily: 'monospace', color: fps === null ? '#888' : fpsColor(fps) }}>
+          {fps === null ? '-- fps' : `${fps} fps`}
+        </span>
+      </div>
+
+      {!heroState ? (
+        <div style={{ padding: '40px 20px', color: '#aaa', textAlign: 'center', lineHeight: '1.6' }}>
+          Waiting for the hero page…<br />
+          Keep the page that opened this window open in the same browser.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: '20px', padding: '20px' }}>
+          <PostProcessingControls
+            onSettingsChange={sendSettingsChange}
+            initialSettings={heroState.settings}
+            docked
+          />
+          <SettingsManager
+            currentSettings={heroState.settings}
+            onSettingsLoad={sendSettingsLoad}
+            docked
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemoteControlPanel;
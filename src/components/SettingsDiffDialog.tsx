@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import type { PostProcessingSettings, SettingsSectionKey } from '../utils/postProcessingSchema';
+import { EFFECT_IDS, SETTINGS_SECTIONS, sanitizeSettings } from '../utils/postProcessingSchema';
+import { diffSettings, formatSettingsValue, mergeSettingsChanges } from '../utils/settingsDiff';
+import type { SettingsChange } from '../utils/settingsDiff';
+
+interface SettingsDiffDialogProps {
+  currentSettings: PostProcessingSettings;
+  incomingSettings: PostProcessingSettings;
+  sourceLabel: string;
+  onApply: (settings: PostProcessingSettings) => void;
+  onCancel: () => void;
+}
+
+// Stack entry changes such as `effectStack.bloom.opacity` belong to their effect's section
+const stackEntryOf = (change: SettingsChange) => {
+  const [section, id, field] = change.path.split('.');
+  return section === 'effectStack' && field !== undefined && (EFFECT_IDS as readonly string[]).includes(id)
+    ? { id, field }
+    : null;
+};
+
+const sectionOf = (change: SettingsChange) => stackEntryOf(change)?.id ?? change.path.split('.')[0];
+
+const fieldLabelOf = (change: SettingsChange) => {
+  const stackEntry = stackEntryOf(change);
+  if (stackEntry) return `stack ${stackEntry.field}`;
+  return change.path.split('.').slice(1).join('.') || change.path;
+};
+
+const SettingsDiffDialog: React.FC<SettingsDiffDialogProps> = ({
+  currentSettings,
+  incomingSettings,
+  sourceLabel,
+  onApply,
+  onCancel,
+}) => {
+  const changes = useMemo(
+    () => diffSettings(currentSettings, incomingSettings),
+    [currentSettings, incomingSettings]
+  );
+
+  // Group field changes by effect section, keeping schema order
+  const sections = useMemo(() => {
+    const grouped = new Map<string, SettingsChange[]>();
+    changes.forEach((change) => {
+      const section = sectionOf(change);
+      grouped.set(section, [...(grouped.get(section) ?? []), change]);
+    });
+    const sectionIndex = (section: string) => SETTINGS_SECTIONS.indexOf(section as SettingsSectionKey);
+    return Array.from(grouped.entries()).sort(([a], [b]) => sectionIndex(a) - sectionIndex(b));
+  }, [changes]);
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(changes.map((change) => change.path)));
+
+  const togglePaths = (paths: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      paths.forEach((path) => (checked ? next.add(path) : next.delete(path)));
+      return next;
+    });
+  };
+
+  const applySelected = () => {
+    const merged = mergeSettingsChanges(currentSettings, incomingSettings, selected);
+    onApply(sanitizeSettings(merged).settings);
+  };
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1010,
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="Review incoming settings"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: 'rgba(0, 0, 0, 0.9)',
+          backdropFilter: 'blur(10px)',
+          border: '1px solid rgba(255, 255, 255, 0.2)',
+          borderRadius: '8px',
+          padding: '20px',
+          width: 'min(480px, calc(100vw - 40px))',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          fontFamily: 'Inter, sans-serif',
+          fontSize: '12px',
+          color: 'white',
+        }}
+      >
+        <h3 style={{ margin: '0 0 4px 0', fontSize: '14px' }}>Review Changes</h3>
+        <div style={{ color: '#aaa', fontSize: '11px', marginBottom: '12px' }}>
+          {sourceLabel} · {changes.length} field{changes.length === 1 ? '' : 's'} differ from the current look
+        </div>
+
+        <div style={{ overflowY: 'auto', flex: 1, marginBottom: '12px' }}>
+          {changes.length === 0 && (
+            <div style={{ color: '#888' }}>The incoming settings match the current look.</div>
+          )}
+
+          {sections.map(([section, sectionChanges]) => {
+            const paths = sectionChanges.map((change) => change.path);
+            const selectedCount = paths.filter((path) => selected.has(path)).length;
+
+            return (
+              <div
+                key={section}
+                style={{ marginBottom: '10px', padding: '8px', background: 'rgba(255, 255, 255, 0.06)', borderRadius: '4px' }}
+              >
+                <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontWeight: 600 }}>
+                  <input
+                    type="checkbox"
+                    checked={selectedCount === paths.length}
+                    ref={(input) => {
+                      if (input) input.indeterminate = selectedCount > 0 && selectedCount < paths.length;
+                    }}
+                    onChange={(e) => togglePaths(paths, e.target.checked)}
+                    style={{ marginRight: '8px' }}
+                  />
+                  {section}
+                  <span style={{ color: '#888', fontWeight: 400, marginLeft: '6px' }}>
+                    ({selectedCount}/{paths.length})
+                  </span>
+                </label>
+
+                {sectionChanges.map((change) => (
+                  <label
+                    key={change.path}
+                    style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', margin: '4px 0 0 20px', fontSize: '11px' }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(change.path)}
+                      onChange={(e) => togglePaths([change.path], e.target.checked)}
+                      style={{ marginRight: '8px' }}
+                    />
+                    <span style={{ fontFamily: 'monospace' }}>{fieldLabelOf(change)}</span>
+                    <span style={{ marginLeft: 'auto', paddingLeft: '8px', whiteSpace: 'nowrap' }}>
+                      <span style={{ color: '#fca5a5' }}>{formatSettingsValue(change.from)}</span>
+                      {' → '}
+                      <span style={{ color: '#86efac' }}>{formatSettingsValue(change.to)}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button
+            onClick={() => togglePaths(changes.map((change) => change.path), selected.size < changes.length)}
+            disabled={changes.length === 0}
+            style={{
+              background: '#374151',
+              color: 'white',
+              border: 'none',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '11px',
+            }}
+          >
+            {selected.size < changes.length ? 'Select All' : 'Select None'}
+          </button>
+          <button
+            onClick={onCancel}
+            style={{
+              marginLeft: 'auto',
+              background: '#6b7280',
+              color: 'white',
+              border: 'none',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '11px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={applySelected}
+            disabled={selected.size === 0}
+            style={{
+              background: selected.size === 0 ? '#6b7280' : '#10b981',
+              color: 'white',
+              border: 'none',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: selected.size === 0 ? 'not-allowed' : 'pointer',
+              fontSize: '11px',
+              opacity: selected.size === 0 ? 0.6 : 1,
+            }}
+          >
+            Apply Selected ({selected.size})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDiffDialog;
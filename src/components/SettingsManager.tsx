@@ -1,14 +1,41 @@
 import React, { useState } from 'react';
-import type { PostProcessingSettings } from './ToneMappingEffect';
+import type { PostProcessingSettings } from '../utils/postProcessingSchema';
+import { migrateSettings, createSettingsEnvelope } from '../utils/settingsMigrations';
+import type { SettingsMigrationResult } from '../utils/settingsMigrations';
+import { useNotifications } from '../hooks/useNotifications';
+import { createShareUrl } from '../utils/shareLink';
+import { downloadSettingsFile, readEmbeddedLuts } from '../utils/settingsExport';
+import { savePreset } from '../utils/presetLibrary';
+import { importLut, storeEmbeddedLuts } from '../utils/lutLibrary';
+import type { StoredLut } from '../utils/lutLibrary';
+import type { SettingsSnapshot } from '../utils/settingsSnapshots';
+import PresetLibrary from './PresetLibrary';
+import LutLibrary from './LutLibrary';
+import SnapshotTimeline from './SnapshotTimeline';
+import SettingsDiffDialog from './SettingsDiffDialog';
+import NotificationStack from './NotificationStack';
+
+interface PendingMerge {
+  settings: PostProcessingSettings;
+  source: string;
+}
 
 interface SettingsManagerProps {
   currentSettings: PostProcessingSettings;
-  onSettingsLoad: (settings: PostProcessingSettings) => void;
+  onSettingsLoad: (settings: PostProcessingSettings, source?: string, presetName?: string) => void;
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>;
+  // Lay the panel out in the page flow, always open, instead of floating over the hero
+  docked?: boolean;
 }
 
-const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSettingsLoad }) => {
-  const [showManager, setShowManager] = useState(false);
+const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSettingsLoad, canvasRef, docked = false }) => {
+  const [showManager, setShowManager] = useState(docked);
   const [hasBackup, setHasBackup] = useState(false);
+  // Incoming settings waiting for the user to pick what to merge
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  // Exported files carry the .cube data instead of just the LUT's library id
+  const [embedLuts, setEmbedLuts] = useState(true);
+  const { notifications, notify, dismiss } = useNotifications();
 
   // Check if backup exists on component mount
   React.useEffect(() => {
@@ -17,24 +44,40 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
     setHasBackup(!!backupData);
   }, []);
 
-  const exportSettings = () => {
-    const settingsData = {
-      version: '1.0',
-      timestamp: new Date().toISOString(),
-      settings: currentSettings
-    };
-    
-    const dataStr = JSON.stringify(settingsData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `saohouse-settings-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const exportSettings = async () => {
+    try {
+      await downloadSettingsFile(currentSettings, `saohouse-settings-${new Date().toISOString().split('T')[0]}.json`, { embedLuts });
+    } catch (error) {
+      notify({ kind: 'error', title: "Couldn't export settings", message: (error as Error).message });
+    }
+  };
+
+  // Sends incoming settings to the diff review, asking first if they needed repairs
+  const reviewIncomingSettings = (migration: SettingsMigrationResult, source: string) => {
+    if (!migration.ok) {
+      notify({ kind: 'error', title: `Can't load ${source}`, message: migration.error });
+      return;
+    }
+
+    if (migration.issues.length === 0) {
+      setPendingMerge({ settings: migration.settings, source });
+      return;
+    }
+
+    notify({
+      kind: 'warning',
+      title: `${migration.issues.length} problem${migration.issues.length === 1 ? '' : 's'} in ${source}`,
+      message: 'Missing or invalid fields can use their defaults, and out-of-range values will be clamped.',
+      issues: migration.issues,
+      actions: [
+        {
+          label: 'Import with defaults for missing fields',
+          primary: true,
+          onClick: () => setPendingMerge({ settings: migration.settings, source }),
+        },
+        { label: 'Cancel', onClick: () => {} },
+      ],
+    });
   };
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -42,46 +85,84 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
+      let payload: unknown;
       try {
-        const result = e.target?.result as string;
-        const data = JSON.parse(result);
-        
-        if (data.settings) {
-          onSettingsLoad(data.settings);
-          alert('Settings imported successfully!');
-        } else {
-          alert('Invalid settings file format');
+        payload = JSON.parse(e.target?.result as string);
+      } catch (error) {
+        notify({ kind: 'error', title: `${file.name} is not valid JSON`, message: (error as Error).message });
+        return;
+      }
+
+      // Embedded LUTs go into the library first so the reviewed settings can find them
+      try {
+        const added = await storeEmbeddedLuts(readEmbeddedLuts(payload));
+        if (added > 0) {
+          notify({ kind: 'info', title: `Added ${added} LUT${added === 1 ? '' : 's'} from ${file.name}` });
         }
       } catch (error) {
-        alert('Error importing settings: ' + (error as Error).message);
+        notify({ kind: 'warning', title: `Couldn't import the LUT in ${file.name}`, message: (error as Error).message });
       }
+      reviewIncomingSettings(migrateSettings(payload), file.name);
+    };
+    reader.onerror = () => {
+      notify({ kind: 'error', title: `Couldn't read ${file.name}`, message: reader.error?.message });
     };
     reader.readAsText(file);
+    // Allow the same file to be picked again
+    event.target.value = '';
+  };
+
+  const applyLut = (lut: StoredLut, source = `Applied LUT "${lut.name}"`) => {
+    onSettingsLoad(
+      {
+        ...currentSettings,
+        lut: { ...currentSettings.lut, lutId: lut.id },
+        effectStack: {
+          ...currentSettings.effectStack,
+          entries: currentSettings.effectStack.entries.map((entry) => (entry.id === 'lut' ? { ...entry, enabled: true } : entry)),
+        },
+      },
+      source
+    );
+  };
+
+  // Adds a .cube file to the library and switches the current look to it
+  const importCubeFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow the same file to be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const lut = await importLut(file.name, await file.text());
+      applyLut(lut, `Imported LUT "${lut.name}"`);
+      notify({ kind: 'success', title: 'LUT imported', message: `${lut.title || lut.name} (${lut.kind}, size ${lut.size})` });
+    } catch (error) {
+      notify({ kind: 'error', title: `Can't import ${file.name}`, message: (error as Error).message });
+    }
   };
 
   const saveToBackup = () => {
     try {
       const backupKey = 'saohouse-settings-backup';
-      const backupData = {
-        version: '1.0',
-        timestamp: new Date().toISOString(),
-        settings: JSON.parse(JSON.stringify(currentSettings)) // Deep clone to ensure clean save
-      };
+      const backupData = createSettingsEnvelope(
+        JSON.parse(JSON.stringify(currentSettings)) // Deep clone to ensure clean save
+      );
       
       // Validate settings before saving
       if (!currentSettings || typeof currentSettings !== 'object') {
-        alert('Error: Invalid settings data to backup');
+        notify({ kind: 'error', title: 'Nothing to back up', message: 'The current settings are invalid' });
         return;
       }
       
       localStorage.setItem(backupKey, JSON.stringify(backupData));
       setHasBackup(true); // Update backup status
       console.log('Backup saved:', backupData); // Debug log
-      alert(`Settings backed up successfully!\nTimestamp: ${new Date().toLocaleString()}`);
+      notify({ kind: 'success', title: 'Settings backed up', message: new Date().toLocaleString() });
     } catch (error) {
       console.error('Backup save error:', error);
-      alert('Error saving backup: ' + (error as Error).message);
+      notify({ kind: 'error', title: "Couldn't save backup", message: (error as Error).message });
     }
   };
 
@@ -91,80 +172,132 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
       const backupData = localStorage.getItem(backupKey);
       
       if (!backupData) {
-        alert('No backup found. Please save a backup first.');
+        notify({ kind: 'info', title: 'No backup found', message: 'Save a backup first.' });
         return;
       }
       
       const data = JSON.parse(backupData);
       console.log('Loading backup:', data); // Debug log
       
-      if (!data.settings) {
-        alert('Error: Backup data is corrupted or invalid');
-        return;
-      }
-      
-      // Validate the backup structure
-      const requiredKeys = ['toneMapping', 'bloom', 'chromaticAberration', 'filmGrain', 'ssao'];
-      const hasAllKeys = requiredKeys.every(key => key in data.settings);
-      
-      if (!hasAllKeys) {
-        alert('Error: Backup appears to be incomplete or corrupted');
-        return;
-      }
-      
-      // Apply the settings
-      onSettingsLoad(data.settings);
-      
-      const backupDate = data.timestamp ? new Date(data.timestamp).toLocaleString() : 'Unknown';
-      alert(`Settings restored successfully!\nBackup from: ${backupDate}`);
-      
+      // Let the user review the backup before anything is applied
+      const backupDate = data.timestamp ? new Date(data.timestamp).toLocaleString() : 'unknown date';
+      reviewIncomingSettings(migrateSettings(data), `backup from ${backupDate}`);
     } catch (error) {
       console.error('Backup load error:', error);
-      alert('Error loading backup: ' + (error as Error).message);
+      notify({ kind: 'error', title: 'Backup data is corrupted', message: (error as Error).message });
     }
   };
 
   const copyToClipboard = () => {
-    const settingsData = {
-      version: '1.0',
-      timestamp: new Date().toISOString(),
-      settings: currentSettings
-    };
+    const settingsData = createSettingsEnvelope(currentSettings);
     
     navigator.clipboard.writeText(JSON.stringify(settingsData, null, 2))
-      .then(() => alert('Settings copied to clipboard!'))
-      .catch(() => alert('Failed to copy settings'));
+      .then(() => notify({ kind: 'success', title: 'Settings copied to clipboard' }))
+      .catch((error: Error) => notify({ kind: 'error', title: "Couldn't copy settings", message: error.message }));
+  };
+
+  const copyShareLink = async () => {
+    try {
+      const url = await createShareUrl(currentSettings);
+      await navigator.clipboard.writeText(url);
+      notify({ kind: 'success', title: 'Share link copied to clipboard', message: `${url.length} characters` });
+    } catch (error) {
+      notify({ kind: 'error', title: "Couldn't copy share link", message: (error as Error).message });
+    }
+  };
+
+  const restoreSnapshot = (snapshot: SettingsSnapshot) => {
+    onSettingsLoad(snapshot.settings, `Restored snapshot from ${new Date(snapshot.createdAt).toLocaleString()}`);
+  };
+
+  const saveSnapshotAsPreset = async (snapshot: SettingsSnapshot) => {
+    try {
+      const preset = await savePreset({
+        name: `Snapshot ${new Date(snapshot.createdAt).toLocaleString()}`,
+        description: snapshot.label,
+        thumbnail: null,
+        settings: snapshot.settings,
+      });
+      notify({ kind: 'success', title: 'Snapshot saved as preset', message: preset.name });
+    } catch (error) {
+      notify({ kind: 'error', title: "Couldn't save snapshot as preset", message: (error as Error).message });
+    }
+  };
+
+  const exportSnapshot = async (snapshot: SettingsSnapshot) => {
+    const stamp = snapshot.createdAt.replace(/[:.]/g, '-').replace(/-\d{3}Z$/, '');
+    try {
+      await downloadSettingsFile(snapshot.settings, `saohouse-snapshot-${stamp}.json`, { embedLuts });
+    } catch (error) {
+      notify({ kind: 'error', title: "Couldn't export snapshot", message: (error as Error).message });
+    }
+  };
+
+  const applyMerge = (settings: PostProcessingSettings) => {
+    if (pendingMerge) {
+      onSettingsLoad(settings, `Loaded ${pendingMerge.source}`);
+    }
+    setPendingMerge(null);
   };
 
   return (
     <>
-      <button
-        onClick={() => setShowManager(!showManager)}
-        style={{
+      {pendingMerge && (
+        <SettingsDiffDialog
+          currentSettings={currentSettings}
+          incomingSettings={pendingMerge.settings}
+          sourceLabel={pendingMerge.source}
+          onApply={applyMerge}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
+      {!docked && (
+        <button
+          onClick={() => setShowManager(!showManager)}
+          style={{
+            position: 'fixed',
+            top: '20px',
+            right: '20px',
+            background: '#2563eb',
+            color: 'white',
+            border: 'none',
+            padding: '10px 15px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            zIndex: 1002,
+            fontFamily: 'Inter, sans-serif',
+            fontSize: '12px',
+            opacity: showManager ? 1 : 0.7,
+            transition: 'opacity 0.2s ease',
+          }}
+        >
+          ⚙️ Settings Manager
+        </button>
+      )}
+
+      {/* Keep notifications visible in the panel's place while it is closed */}
+      {!showManager && notifications.length > 0 && (
+        <div style={{
           position: 'fixed',
-          top: '20px',
+          top: '60px',
           right: '20px',
-          background: '#2563eb',
-          color: 'white',
-          border: 'none',
-          padding: '10px 15px',
-          borderRadius: '4px',
-          cursor: 'pointer',
-          zIndex: 1002,
+          width: '300px',
+          zIndex: 1003,
           fontFamily: 'Inter, sans-serif',
-          fontSize: '12px',
-          opacity: showManager ? 1 : 0.7,
-          transition: 'opacity 0.2s ease',
-        }}
-      >
-        ⚙️ Settings Manager
-      </button>
+          color: 'white',
+          background: 'rgba(0, 0, 0, 0.8)',
+          backdropFilter: 'blur(10px)',
+          borderRadius: '8px',
+          padding: '10px 10px 0 10px',
+        }}>
+          <NotificationStack notifications={notifications} onDismiss={dismiss} />
+        </div>
+      )}
 
       {showManager && (
         <div style={{
-          position: 'fixed',
-          top: '60px',
-          right: '20px',
+          ...(docked ? { position: 'static' } : { position: 'fixed', top: '60px', right: '20px' }),
           background: 'rgba(0, 0, 0, 0.8)',
           backdropFilter: 'blur(10px)',
           border: '1px solid rgba(255, 255, 255, 0.2)',
@@ -175,9 +308,14 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
           fontSize: '12px',
           color: 'white',
           minWidth: '250px',
+          maxWidth: '300px',
+          maxHeight: docked ? undefined : 'calc(100vh - 80px)',
+          overflowY: 'auto',
         }}>
           <h3 style={{ margin: '0 0 15px 0', fontSize: '14px' }}>Settings Manager</h3>
           
+          <NotificationStack notifications={notifications} onDismiss={dismiss} />
+          
           <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
             <button
               onClick={exportSettings}
@@ -193,6 +331,16 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
             >
               📥 Export Settings
             </button>
+
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '11px' }}>
+              <input
+                type="checkbox"
+                checked={embedLuts}
+                onChange={(e) => setEmbedLuts(e.target.checked)}
+                style={{ marginRight: '6px' }}
+              />
+              Embed LUT files in exports
+            </label>
             
             <label style={{
               background: '#f59e0b',
@@ -262,6 +410,41 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
             >
               📋 Copy to Clipboard
             </button>
+            
+            <button
+              onClick={copyShareLink}
+              style={{
+                background: '#968065',
+                color: 'white',
+                border: 'none',
+                padding: '8px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '11px',
+              }}
+            >
+              🔗 Copy Share Link
+            </button>
+            
+            <hr style={{ border: '1px solid rgba(255, 255, 255, 0.2)', margin: '10px 0' }} />
+            
+            <PresetLibrary
+              currentSettings={currentSettings}
+              onPresetApply={(settings, preset) => onSettingsLoad(settings, `Applied preset "${preset.name}"`, preset.name)}
+              canvasRef={canvasRef}
+            />
+
+            <hr style={{ border: '1px solid rgba(255, 255, 255, 0.2)', margin: '10px 0' }} />
+
+            <LutLibrary activeLutId={currentSettings.lut.lutId} onImport={importCubeFile} onApply={(lut) => applyLut(lut)} />
+
+            <hr style={{ border: '1px solid rgba(255, 255, 255, 0.2)', margin: '10px 0' }} />
+
+            <SnapshotTimeline
+              onRestore={restoreSnapshot}
+              onRestoreAsPreset={saveSnapshotAsPreset}
+              onExport={exportSnapshot}
+            />
           </div>
           
           <div style={{ 
@@ -275,6 +458,9 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ currentSettings, onSe
             <strong>💡 Tips:</strong><br/>
             • Export settings before making changes<br/>
             • Use backup for quick save/restore<br/>
+            • Save named presets to switch between looks<br/>
+            • Every change is kept in the snapshot timeline<br/>
+            • Imported .cube LUTs live in the library; embed them to share a graded look<br/>
             • Settings are auto-saved to localStorage
           </div>
         </div>
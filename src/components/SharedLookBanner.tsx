@@ -0,0 +1,65 @@
+import React from 'react';
+
+interface SharedLookBannerProps {
+  error?: string | null;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+const bannerButtonStyle = (background: string): React.CSSProperties => ({
+  background,
+  color: 'white',
+  border: 'none',
+  padding: '6px 12px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'Inter, sans-serif',
+  fontSize: '11px',
+});
+
+const SharedLookBanner: React.FC<SharedLookBannerProps> = ({ error, onKeep, onDiscard }) => {
+  return (
+    <div
+      role="status"
+      style={{
+        position: 'fixed',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(10px)',
+        border: `1px solid ${error ? 'rgba(239, 68, 68, 0.6)' : 'rgba(150, 128, 101, 0.6)'}`,
+        borderRadius: '8px',
+        padding: '10px 14px',
+        zIndex: 1004,
+        fontFamily: 'Inter, sans-serif',
+        fontSize: '12px',
+        color: 'white',
+      }}
+    >
+      {error ? (
+        <>
+          <span>⚠️ Couldn't open shared look: {error}</span>
+          <button onClick={onDiscard} style={bannerButtonStyle('#6b7280')}>
+            Dismiss
+          </button>
+        </>
+      ) : (
+        <>
+          <span>🔗 Viewing shared look</span>
+          <button onClick={onKeep} style={bannerButtonStyle('#10b981')}>
+            Keep
+          </button>
+          <button onClick={onDiscard} style={bannerButtonStyle('#6b7280')}>
+            Discard
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SharedLookBanner;
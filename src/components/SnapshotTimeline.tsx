@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import type { SettingsSnapshot, SnapshotRetention } from '../utils/settingsSnapshots';
+import { useSnapshotTimeline } from '../hooks/useSettingsSnapshots';
+
+interface SnapshotTimelineProps {
+  onRestore: (snapshot: SettingsSnapshot) => void;
+  onRestoreAsPreset: (snapshot: SettingsSnapshot) => void;
+  onExport: (snapshot: SettingsSnapshot) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '56px',
+  padding: '3px 6px',
+  background: '#333',
+  color: 'white',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  fontFamily: 'Inter, sans-serif',
+  fontSize: '11px',
+};
+
+const smallButtonStyle = (background: string): React.CSSProperties => ({
+  background,
+  color: 'white',
+  border: 'none',
+  padding: '3px 6px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '10px',
+});
+
+// Day headings keep a long timeline scannable
+const dayLabel = (createdAt: string) => {
+  const date = new Date(createdAt);
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString();
+};
+
+const SnapshotTimeline: React.FC<SnapshotTimelineProps> = ({ onRestore, onRestoreAsPreset, onExport }) => {
+  const { snapshots, loading, error, retention, setRetention, remove } = useSnapshotTimeline();
+  const [expanded, setExpanded] = useState(false);
+
+  const updateRetention = (key: keyof SnapshotRetention, value: string) => {
+    const parsed = Math.max(0, Math.floor(Number(value)));
+    if (Number.isFinite(parsed)) {
+      setRetention({ ...retention, [key]: parsed });
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          width: '100%',
+          alignItems: 'center',
+          background: 'transparent',
+          color: 'white',
+          border: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          fontFamily: 'Inter, sans-serif',
+          fontSize: '13px',
+          fontWeight: 600,
+        }}
+      >
+        🕒 Snapshot Timeline
+        <span style={{ color: '#888', fontWeight: 400, fontSize: '11px', marginLeft: '6px' }}>
+          ({snapshots.length})
+        </span>
+        <span style={{ marginLeft: 'auto', color: '#888' }}>{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div style={{ marginTop: '10px' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', fontSize: '10px', color: '#aaa', marginBottom: '8px' }}>
+            <label>
+              Keep last{' '}
+              <input
+                type="number"
+                min={0}
+                value={retention.maxCount}
+                onChange={(e) => updateRetention('maxCount', e.target.value)}
+                style={inputStyle}
+              />{' '}
+              changes
+            </label>
+            <label>
+              and{' '}
+              <input
+                type="number"
+                min={0}
+                value={retention.maxAgeDays}
+                onChange={(e) => updateRetention('maxAgeDays', e.target.value)}
+                style={inputStyle}
+              />{' '}
+              days
+            </label>
+            <span style={{ color: '#777' }}>(0 = no limit)</span>
+          </div>
+
+          {error && (
+            <div style={{ color: '#fca5a5', fontSize: '10px', marginBottom: '8px' }}>
+              Snapshot timeline unavailable: {error}
+            </div>
+          )}
+
+          <div style={{ maxHeight: '260px', overflowY: 'auto' }}>
+            {loading && <div style={{ color: '#888', fontSize: '10px' }}>Loading snapshots…</div>}
+            {!loading && snapshots.length === 0 && (
+              <div style={{ color: '#888', fontSize: '10px' }}>Changes will appear here as you make them</div>
+            )}
+
+            {snapshots.map((snapshot, index) => {
+              const day = dayLabel(snapshot.createdAt);
+              const showDay = index === 0 || dayLabel(snapshots[index - 1].createdAt) !== day;
+
+              return (
+                <React.Fragment key={snapshot.id}>
+                  {showDay && (
+                    <div style={{ color: '#968065', fontSize: '10px', fontWeight: 600, margin: '6px 0 4px 0' }}>{day}</div>
+                  )}
+                  <div style={{
+                    padding: '6px 8px',
+                    marginBottom: '4px',
+                    background: 'rgba(255, 255, 255, 0.06)',
+                    borderLeft: `2px solid ${index === 0 ? '#968065' : 'rgba(255, 255, 255, 0.2)'}`,
+                    borderRadius: '3px',
+                    fontSize: '10px',
+                  }}>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <span style={{ color: '#888', flexShrink: 0 }}>
+                        {new Date(snapshot.createdAt).toLocaleTimeString()}
+                      </span>
+                      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={snapshot.label}>
+                        {snapshot.label}
+                      </span>
+                    </div>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}>
+                      <button onClick={() => onRestore(snapshot)} style={smallButtonStyle('#10b981')}>
+                        Restore
+                      </button>
+                      <button onClick={() => onRestoreAsPreset(snapshot)} style={smallButtonStyle('#968065')}>
+                        As Preset
+                      </button>
+                      <button onClick={() => onExport(snapshot)} style={smallButtonStyle('#06b6d4')}>
+                        Export
+                      </button>
+                      <button onClick={() => remove(snapshot.id)} aria-label="Delete snapshot" style={smallButtonStyle('#4b5563')}>
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotTimeline;
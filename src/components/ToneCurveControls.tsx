@@ -0,0 +1,77 @@
+import React from 'react';
+import { postProcessingSchema, rangeProps } from '../utils/postProcessingSchema';
+import type { ToneMappingSettings } from '../utils/postProcessingSchema';
+
+interface ToneCurveControlsProps {
+  toneMapping: ToneMappingSettings;
+  onChange: (settings: Partial<ToneMappingSettings>) => void;
+  // Panels without their own white point slider show it here
+  includeWhitePoint?: boolean;
+}
+
+const fields = postProcessingSchema.toneMapping;
+
+// Shape of the custom tone curve, shown while that mode is selected
+const ToneCurveControls: React.FC<ToneCurveControlsProps> = ({ toneMapping, onChange, includeWhitePoint = false }) => (
+  <>
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Curve Contrast: {toneMapping.curveContrast.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.curveContrast)}
+        value={toneMapping.curveContrast}
+        onChange={(e) => onChange({ curveContrast: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Curve Shoulder: {toneMapping.curveShoulder.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.curveShoulder)}
+        value={toneMapping.curveShoulder}
+        onChange={(e) => onChange({ curveShoulder: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    <div style={{ marginBottom: '15px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        Middle Grey Out: {toneMapping.curveMidOut.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        {...rangeProps(fields.curveMidOut)}
+        value={toneMapping.curveMidOut}
+        onChange={(e) => onChange({ curveMidOut: parseFloat(e.target.value) })}
+        style={{ width: '100%' }}
+      />
+    </div>
+
+    {includeWhitePoint && (
+      <div style={{ marginBottom: '15px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>
+          White Point: {toneMapping.whitePoint.toFixed(1)}
+        </label>
+        <input
+          type="range"
+          {...rangeProps(fields.whitePoint)}
+          value={toneMapping.whitePoint}
+          onChange={(e) => onChange({ whitePoint: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+    )}
+
+    <div style={{ fontSize: '10px', color: '#888', marginBottom: '15px' }}>
+      Scene middle grey maps to the output value; the white point maps to white.
+    </div>
+  </>
+);
+
+export default ToneCurveControls;
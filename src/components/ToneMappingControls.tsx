@@ -1,146 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { ToneMappingMode } from 'postprocessing';
+import { VignetteTechnique } from 'postprocessing';
+import {
+  postProcessingSchema,
+  defaultPostProcessingSettings,
+  rangeProps,
+  getStackEntry,
+  GOD_RAYS_CUSTOM_EMITTER,
+  ABERRATION_MASK_DEPTH,
+  ABERRATION_MASK_SELECTION,
+  ABERRATION_MASK_NONE,
+  LOGO_LAYER,
+  BLOOM_LAYER,
+  TONE_MAPPING_CUSTOM,
+} from '../utils/postProcessingSchema';
+import EffectStackControls from './EffectStackControls';
+import ColorWheel from './ColorWheel';
+import ChannelOffsetControls from './ChannelOffsetControls';
+import BloomMeshPicker from './BloomMeshPicker';
+import FilmGrainControls from './FilmGrainControls';
+import ToneCurveControls from './ToneCurveControls';
+import AntialiasingControls from './AntialiasingControls';
+import { useLutLibrary } from '../hooks/useLutLibrary';
+import type { SettingsHistory } from '../hooks/useSettingsHistory';
+import type {
+  PostProcessingSettings,
+  ToneMappingSettings,
+  BloomSettings,
+  ChromaticAberrationSettings,
+  FilmGrainSettings,
+  SSAOSettings,
+  BlurSettings,
+  DepthOfFieldSettings,
+  LensDistortionSettings,
+  VignetteSettings,
+  GodRaysSettings,
+  ColorGradeSettings,
+  LutSettings,
+  AntialiasingSettings,
+  EffectId,
+  EffectStackEntry,
+} from '../utils/postProcessingSchema';
 
 interface PostProcessingControlsProps {
   onSettingsChange: (settings: PostProcessingSettings) => void;
   initialSettings?: PostProcessingSettings;
-}
-
-export interface ToneMappingSettings {
-  mode: ToneMappingMode;
-  exposure: number;
-  whitePoint: number;
-  middleGrey: number;
-  adaptation: number;
-}
-
-export interface BloomSettings {
-  intensity: number;
-  luminanceThreshold: number;
-  luminanceSmoothing: number;
-  mipmapBlur: boolean;
-  opacity: number;
-}
-
-export interface ChromaticAberrationSettings {
-  offset: [number, number];
-  redOffset: [number, number];
-  greenOffset: [number, number];
-  blueOffset: [number, number];
-  radialModulation: boolean;
-  modulationOffset: number;
-  blur: number;
-}
-
-export interface FilmGrainSettings {
-  intensity: number;
-  opacity: number;
-}
-
-export interface SSAOSettings {
-  intensity: number;
-  radius: number;
-  bias: number;
-  samples: number;
-  rings: number;
-  distanceThreshold: number;
-  distanceFalloff: number;
-}
-
-export interface BlurSettings {
-  enabled: boolean;
-  intensity: number;
-  kernelSize: number;
-  iterations: number;
-}
-
-export interface DepthOfFieldSettings {
-  enabled: boolean;
-  focusDistance: number;
-  focalLength: number;
-  bokehScale: number;
-}
-
-export interface LensDistortionSettings {
-  barrelDistortion: number;
-  chromaticAberration: number;
-  vignette: number;
-  center: [number, number];
-  enabled: boolean;
-}
-
-export interface PostProcessingSettings {
-  toneMapping: ToneMappingSettings;
-  bloom: BloomSettings;
-  chromaticAberration: ChromaticAberrationSettings;
-  filmGrain: FilmGrainSettings;
-  ssao: SSAOSettings;
-  blur: BlurSettings;
-  depthOfField: DepthOfFieldSettings;
-  lensDistortion: LensDistortionSettings;
+  history?: SettingsHistory;
+  // Cross-tab sync state for this tab; omitted when syncing isn't available
+  sync?: {
+    following: boolean;
+    onFollowingChange: (following: boolean) => void;
+  };
+  // Lay the panel out in the page flow instead of floating over the hero
+  docked?: boolean;
 }
 
 const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({ 
   onSettingsChange,
-  initialSettings
+  initialSettings,
+  history,
+  sync,
+  docked = false
 }) => {
-  const defaultSettings: PostProcessingSettings = {
-    toneMapping: {
-      mode: ToneMappingMode.ACES_FILMIC,
-      exposure: 1.2,
-      whitePoint: 16.0,
-      middleGrey: 0.6,
-      adaptation: 1.0,
-    },
-    bloom: {
-      intensity: 0.8,
-      luminanceThreshold: 0.85,
-      luminanceSmoothing: 0.4,
-      mipmapBlur: true,
-      opacity: 0.8,
-    },
-    chromaticAberration: {
-      offset: [0.015, 0.008],
-      redOffset: [0.015, 0.0],     // Red channel moves right
-      greenOffset: [0.0, 0.0],     // Green channel stays centered  
-      blueOffset: [-0.015, 0.0],   // Blue channel moves left
-      radialModulation: false,
-      modulationOffset: 0.0,
-      blur: 0.002,
-    },
-    filmGrain: {
-      intensity: 0.3,
-      opacity: 0.15,
-    },
-    ssao: {
-      intensity: 0.5,
-      radius: 1.0,
-      bias: 0.05,
-      samples: 16,
-      rings: 4,
-      distanceThreshold: 1.0,
-      distanceFalloff: 0.5,
-    },
-    blur: {
-      enabled: false,
-      intensity: 0.5,
-      kernelSize: 35.5,
-      iterations: 1,
-    },
-    depthOfField: {
-      enabled: false,
-      focusDistance: 10.0,
-      focalLength: 50.0,
-      bokehScale: 1.0,
-    },
-    lensDistortion: {
-      enabled: false,
-      barrelDistortion: 0.0,
-      chromaticAberration: 0.0,
-      vignette: 0.0,
-      center: [0.5, 0.5],
-    }
-  };
+  const defaultSettings = defaultPostProcessingSettings;
+  const { luts } = useLutLibrary();
+  // Chromatic aberration offsets as angle + magnitude; only changes the sliders, not the settings
+  const [polarOffsets, setPolarOffsets] = useState(false);
 
   const [settings, setSettings] = useState<PostProcessingSettings>(() => {
     if (initialSettings) {
@@ -154,6 +78,12 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
         blur: { ...defaultSettings.blur, ...initialSettings.blur },
         depthOfField: { ...defaultSettings.depthOfField, ...initialSettings.depthOfField },
         lensDistortion: { ...defaultSettings.lensDistortion, ...initialSettings.lensDistortion },
+        vignette: { ...defaultSettings.vignette, ...initialSettings.vignette },
+        godRays: { ...defaultSettings.godRays, ...initialSettings.godRays },
+        colorGrade: { ...defaultSettings.colorGrade, ...initialSettings.colorGrade },
+        lut: { ...defaultSettings.lut, ...initialSettings.lut },
+        antialiasing: { ...defaultSettings.antialiasing, ...initialSettings.antialiasing },
+        effectStack: { ...defaultSettings.effectStack, ...initialSettings.effectStack },
       };
     }
     return defaultSettings;
@@ -172,6 +102,12 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
         blur: { ...defaultSettings.blur, ...initialSettings.blur },
         depthOfField: { ...defaultSettings.depthOfField, ...initialSettings.depthOfField },
         lensDistortion: { ...defaultSettings.lensDistortion, ...initialSettings.lensDistortion },
+        vignette: { ...defaultSettings.vignette, ...initialSettings.vignette },
+        godRays: { ...defaultSettings.godRays, ...initialSettings.godRays },
+        colorGrade: { ...defaultSettings.colorGrade, ...initialSettings.colorGrade },
+        lut: { ...defaultSettings.lut, ...initialSettings.lut },
+        antialiasing: { ...defaultSettings.antialiasing, ...initialSettings.antialiasing },
+        effectStack: { ...defaultSettings.effectStack, ...initialSettings.effectStack },
       });
     }
   }, [initialSettings]);
@@ -248,14 +184,67 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
     onSettingsChange(updated);
   };
 
-  const toneMappingModes = [
-    { value: ToneMappingMode.LINEAR, label: 'Linear' },
-    { value: ToneMappingMode.REINHARD, label: 'Reinhard' },
-    { value: ToneMappingMode.REINHARD2, label: 'Reinhard2' },
-    { value: ToneMappingMode.REINHARD2_ADAPTIVE, label: 'Reinhard2 Adaptive' },
-    { value: ToneMappingMode.OPTIMIZED_CINEON, label: 'Optimized Cineon' },
-    { value: ToneMappingMode.ACES_FILMIC, label: 'ACES Filmic' },
-  ];
+  const updateVignetteSettings = (newSettings: Partial<VignetteSettings>) => {
+    const updated = {
+      ...settings,
+      vignette: { ...settings.vignette, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateGodRaysSettings = (newSettings: Partial<GodRaysSettings>) => {
+    const updated = {
+      ...settings,
+      godRays: { ...settings.godRays, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateColorGradeSettings = (newSettings: Partial<ColorGradeSettings>) => {
+    const updated = {
+      ...settings,
+      colorGrade: { ...settings.colorGrade, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateAntialiasingSettings = (newSettings: Partial<AntialiasingSettings>) => {
+    const updated = {
+      ...settings,
+      antialiasing: { ...settings.antialiasing, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateLutSettings = (newSettings: Partial<LutSettings>) => {
+    const updated = {
+      ...settings,
+      lut: { ...settings.lut, ...newSettings }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const updateEffectStack = (entries: EffectStackEntry[]) => {
+    const updated = {
+      ...settings,
+      effectStack: { ...settings.effectStack, entries }
+    };
+    setSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const isEffectEnabled = (id: EffectId) => getStackEntry(settings.effectStack, id).enabled;
+
+  const setEffectEnabled = (id: EffectId, enabled: boolean) => {
+    updateEffectStack(settings.effectStack.entries.map((entry) => (entry.id === id ? { ...entry, enabled } : entry)));
+  };
+
+  const toneMappingModes = postProcessingSchema.toneMapping.mode.options;
 
   const resetToDefaults = () => {
     setSettings(defaultSettings);
@@ -264,15 +253,13 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
 
   return (
     <div style={{
-      position: 'fixed',
-      top: '20px',
-      right: '20px',
+      ...(docked ? { position: 'static' } : { position: 'fixed', top: '20px', right: '20px' }),
       background: 'rgba(0, 0, 0, 0.8)',
       padding: '20px',
       borderRadius: '8px',
       color: 'white',
       minWidth: '300px',
-      maxHeight: '90vh',
+      maxHeight: docked ? undefined : '90vh',
       overflowY: 'auto',
       zIndex: 1000,
       fontFamily: 'Inter, sans-serif',
@@ -301,6 +288,104 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
         </span>
       </h3>
 
+      {/* Cross-tab Sync */}
+      {sync && (
+        <div style={{ marginBottom: '20px', fontSize: '11px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={sync.following}
+              onChange={(e) => sync.onFollowingChange(e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            🔄 Follow changes from other tabs
+          </label>
+          <div style={{ color: '#888', marginTop: '4px' }}>
+            {sync.following
+              ? 'Edits here and in other open tabs stay in sync.'
+              : 'Detached: this tab neither sends nor receives changes.'}
+          </div>
+        </div>
+      )}
+
+      {/* Undo / Redo History */}
+      {history && (
+        <div style={{ marginBottom: '25px' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '10px' }}>
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              style={{
+                padding: '6px',
+                background: history.canUndo ? '#968065' : '#6b7280',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: history.canUndo ? 'pointer' : 'not-allowed',
+                fontSize: '11px',
+                opacity: history.canUndo ? 1 : 0.6,
+              }}
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              style={{
+                padding: '6px',
+                background: history.canRedo ? '#968065' : '#6b7280',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: history.canRedo ? 'pointer' : 'not-allowed',
+                fontSize: '11px',
+                opacity: history.canRedo ? 1 : 0.6,
+              }}
+            >
+              ↷ Redo
+            </button>
+          </div>
+
+          <div style={{
+            maxHeight: '140px',
+            overflowY: 'auto',
+            background: 'rgba(255, 255, 255, 0.05)',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '4px',
+            fontSize: '11px',
+          }}>
+            {history.entries.map((entry, index) => (
+              <button
+                key={`${entry.timestamp}-${index}`}
+                onClick={() => history.jumpTo(index)}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  textAlign: 'left',
+                  padding: '5px 8px',
+                  background: index === history.index ? 'rgba(150, 128, 101, 0.4)' : 'transparent',
+                  color: index > history.index ? '#777' : 'white',
+                  border: 'none',
+                  borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+                  cursor: 'pointer',
+                  fontFamily: 'Inter, sans-serif',
+                  fontSize: '11px',
+                }}
+              >
+                <span style={{ color: '#888', marginRight: '6px' }}>
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                {entry.label}
+              </button>
+            )).reverse()}
+          </div>
+        </div>
+      )}
+
+      <EffectStackControls entries={settings.effectStack.entries} onChange={updateEffectStack} />
+
       {/* Quick Blur Debug Section */}
       <div style={{ 
         marginBottom: '25px', 
@@ -397,115 +482,108 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
       <div style={{ marginBottom: '25px' }}>
         <h4 style={{ margin: '0 0 15px 0', color: '#ff6b9d', fontSize: '16px' }}>🌈 RGB Chromatic Aberration</h4>
         
-        {/* Red Channel */}
-        <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(255, 0, 0, 0.1)', borderRadius: '5px' }}>
-          <h5 style={{ margin: '0 0 10px 0', color: '#ff4444' }}>🔴 Red Channel</h5>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Red X: {(settings.chromaticAberration?.redOffset?.[0] || 0).toFixed(3)}
-            </label>
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', marginBottom: '8px' }}>
             <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.redOffset?.[0] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                redOffset: [parseFloat(e.target.value), settings.chromaticAberration?.redOffset?.[1] || 0] 
-              })}
-              style={{ width: '100%' }}
+              type="checkbox"
+              checked={settings.chromaticAberration.radialModulation}
+              onChange={(e) => updateChromaticAberrationSettings({ radialModulation: e.target.checked })}
+              style={{ marginRight: '8px' }}
             />
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Red Y: {(settings.chromaticAberration?.redOffset?.[1] || 0).toFixed(3)}
-            </label>
+            Radial (lens-like) fringing
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
             <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.redOffset?.[1] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                redOffset: [settings.chromaticAberration?.redOffset?.[0] || 0, parseFloat(e.target.value)] 
-              })}
-              style={{ width: '100%' }}
+              type="checkbox"
+              checked={polarOffsets}
+              onChange={(e) => setPolarOffsets(e.target.checked)}
+              style={{ marginRight: '8px' }}
             />
-          </div>
+            Edit offsets as angle + magnitude
+          </label>
+        </div>
+
+        {settings.chromaticAberration.radialModulation && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Falloff Start: {settings.chromaticAberration.modulationOffset.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.modulationOffset)}
+                value={settings.chromaticAberration.modulationOffset}
+                onChange={(e) => updateChromaticAberrationSettings({ modulationOffset: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Center X: {settings.chromaticAberration.center[0].toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.center)}
+                value={settings.chromaticAberration.center[0]}
+                onChange={(e) => updateChromaticAberrationSettings({
+                  center: [parseFloat(e.target.value), settings.chromaticAberration.center[1]]
+                })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Center Y: {settings.chromaticAberration.center[1].toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.center)}
+                value={settings.chromaticAberration.center[1]}
+                onChange={(e) => updateChromaticAberrationSettings({
+                  center: [settings.chromaticAberration.center[0], parseFloat(e.target.value)]
+                })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Red Channel */}
+        <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(255, 0, 0, 0.1)', borderRadius: '5px' }}>
+          <h5 style={{ margin: '0 0 10px 0', color: '#ff4444' }}>🔴 Red Channel</h5>
+          <ChannelOffsetControls
+            label="Red"
+            offset={settings.chromaticAberration.redOffset}
+            onChange={(redOffset) => updateChromaticAberrationSettings({ redOffset })}
+            polar={polarOffsets}
+            radial={settings.chromaticAberration.radialModulation}
+          />
         </div>
 
         {/* Green Channel */}
         <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(0, 255, 0, 0.1)', borderRadius: '5px' }}>
           <h5 style={{ margin: '0 0 10px 0', color: '#44ff44' }}>🟢 Green Channel</h5>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Green X: {(settings.chromaticAberration?.greenOffset?.[0] || 0).toFixed(3)}
-            </label>
-            <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.greenOffset?.[0] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                greenOffset: [parseFloat(e.target.value), settings.chromaticAberration?.greenOffset?.[1] || 0] 
-              })}
-              style={{ width: '100%' }}
-            />
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Green Y: {(settings.chromaticAberration?.greenOffset?.[1] || 0).toFixed(3)}
-            </label>
-            <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.greenOffset?.[1] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                greenOffset: [settings.chromaticAberration?.greenOffset?.[0] || 0, parseFloat(e.target.value)] 
-              })}
-              style={{ width: '100%' }}
-            />
-          </div>
+          <ChannelOffsetControls
+            label="Green"
+            offset={settings.chromaticAberration.greenOffset}
+            onChange={(greenOffset) => updateChromaticAberrationSettings({ greenOffset })}
+            polar={polarOffsets}
+            radial={settings.chromaticAberration.radialModulation}
+          />
         </div>
 
         {/* Blue Channel */}
         <div style={{ marginBottom: '15px', padding: '10px', background: 'rgba(0, 0, 255, 0.1)', borderRadius: '5px' }}>
           <h5 style={{ margin: '0 0 10px 0', color: '#4444ff' }}>🔵 Blue Channel</h5>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Blue X: {(settings.chromaticAberration?.blueOffset?.[0] || 0).toFixed(3)}
-            </label>
-            <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.blueOffset?.[0] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                blueOffset: [parseFloat(e.target.value), settings.chromaticAberration?.blueOffset?.[1] || 0] 
-              })}
-              style={{ width: '100%' }}
-            />
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>
-              Blue Y: {(settings.chromaticAberration?.blueOffset?.[1] || 0).toFixed(3)}
-            </label>
-            <input
-              type="range"
-              min="-0.1"
-              max="0.1"
-              step="0.001"
-              value={settings.chromaticAberration?.blueOffset?.[1] || 0}
-              onChange={(e) => updateChromaticAberrationSettings({ 
-                blueOffset: [settings.chromaticAberration?.blueOffset?.[0] || 0, parseFloat(e.target.value)] 
-              })}
-              style={{ width: '100%' }}
-            />
-          </div>
+          <ChannelOffsetControls
+            label="Blue"
+            offset={settings.chromaticAberration.blueOffset}
+            onChange={(blueOffset) => updateChromaticAberrationSettings({ blueOffset })}
+            polar={polarOffsets}
+            radial={settings.chromaticAberration.radialModulation}
+          />
         </div>
 
         <div style={{ marginBottom: '15px' }}>
@@ -514,49 +592,106 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="0.01"
-            step="0.0001"
+            {...rangeProps(postProcessingSchema.chromaticAberration.blur)}
             value={settings.chromaticAberration?.blur || 0}
             onChange={(e) => updateChromaticAberrationSettings({ blur: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
           />
         </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>Keep Sharp:</label>
+          <select
+            value={settings.chromaticAberration.maskMode}
+            onChange={(e) => updateChromaticAberrationSettings({ maskMode: parseInt(e.target.value) as ChromaticAberrationSettings['maskMode'] })}
+            style={{
+              width: '100%',
+              padding: '5px',
+              background: '#333',
+              color: 'white',
+              border: '1px solid #555',
+              borderRadius: '4px',
+            }}
+          >
+            {postProcessingSchema.chromaticAberration.maskMode.options.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {settings.chromaticAberration.maskMode === ABERRATION_MASK_DEPTH && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Mask Start Depth: {settings.chromaticAberration.depthMaskStart.toFixed(4)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.depthMaskStart)}
+                value={settings.chromaticAberration.depthMaskStart}
+                onChange={(e) => updateChromaticAberrationSettings({ depthMaskStart: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Mask Full Depth: {settings.chromaticAberration.depthMaskEnd.toFixed(4)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.depthMaskEnd)}
+                value={settings.chromaticAberration.depthMaskEnd}
+                onChange={(e) => updateChromaticAberrationSettings({ depthMaskEnd: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </>
+        )}
+
+        {settings.chromaticAberration.maskMode === ABERRATION_MASK_SELECTION && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Mask Layer: {settings.chromaticAberration.maskLayer}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.chromaticAberration.maskLayer)}
+                value={settings.chromaticAberration.maskLayer}
+                onChange={(e) => updateChromaticAberrationSettings({ maskLayer: parseInt(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+            <div style={{ fontSize: '10px', color: '#888', margin: '-8px 0 15px 0' }}>
+              The logo is on layer {LOGO_LAYER}.
+            </div>
+          </>
+        )}
+
+        {settings.chromaticAberration.maskMode !== ABERRATION_MASK_NONE && (
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>
+              Mask Cutoff: {settings.chromaticAberration.maskCutoff.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              {...rangeProps(postProcessingSchema.chromaticAberration.maskCutoff)}
+              value={settings.chromaticAberration.maskCutoff}
+              onChange={(e) => updateChromaticAberrationSettings({ maskCutoff: parseFloat(e.target.value) })}
+              style={{ width: '100%' }}
+            />
+          </div>
+        )}
       </div>
 
       {/* Film Grain Controls */}
       <div style={{ marginBottom: '25px' }}>
         <h4 style={{ margin: '0 0 15px 0', color: '#c4a47c', fontSize: '16px' }}>🎞️ Film Grain</h4>
         
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px' }}>
-            Intensity: {(settings.filmGrain?.intensity || 0.3).toFixed(2)}
-          </label>
-          <input
-            type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
-            value={settings.filmGrain?.intensity || 0.3}
-            onChange={(e) => updateFilmGrainSettings({ intensity: parseFloat(e.target.value) })}
-            style={{ width: '100%' }}
-          />
-        </div>
-
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px' }}>
-            Opacity: {(settings.filmGrain?.opacity || 0.15).toFixed(2)}
-          </label>
-          <input
-            type="range"
-            min="0.0"
-            max="0.5"
-            step="0.01"
-            value={settings.filmGrain?.opacity || 0.15}
-            onChange={(e) => updateFilmGrainSettings({ opacity: parseFloat(e.target.value) })}
-            style={{ width: '100%' }}
-          />
-        </div>
+        <FilmGrainControls filmGrain={settings.filmGrain} onChange={updateFilmGrainSettings} />
       </div>
 
       {/* Blur Controls */}
@@ -583,9 +718,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.1"
-                max="2.0"
-                step="0.1"
+                {...rangeProps(postProcessingSchema.blur.intensity)}
                 value={settings.blur?.intensity || 0.5}
                 onChange={(e) => updateBlurSettings({ intensity: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -598,9 +731,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="3"
-                max="101"
-                step="0.5"
+                {...rangeProps(postProcessingSchema.blur.kernelSize)}
                 value={settings.blur?.kernelSize || 35.5}
                 onChange={(e) => updateBlurSettings({ kernelSize: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -613,9 +744,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="1"
-                max="5"
-                step="1"
+                {...rangeProps(postProcessingSchema.blur.iterations)}
                 value={settings.blur?.iterations || 1}
                 onChange={(e) => updateBlurSettings({ iterations: parseInt(e.target.value) })}
                 style={{ width: '100%' }}
@@ -635,9 +764,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="3.0"
-            step="0.1"
+            {...rangeProps(postProcessingSchema.bloom.intensity)}
             value={settings.bloom?.intensity || 0.8}
             onChange={(e) => updateBloomSettings({ intensity: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -650,9 +777,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.bloom.luminanceThreshold)}
             value={settings.bloom?.luminanceThreshold || 0.85}
             onChange={(e) => updateBloomSettings({ luminanceThreshold: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -665,30 +790,13 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.bloom.luminanceSmoothing)}
             value={settings.bloom?.luminanceSmoothing || 0.4}
             onChange={(e) => updateBloomSettings({ luminanceSmoothing: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
           />
         </div>
 
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px' }}>
-            Opacity: {(settings.bloom?.opacity || 0.8).toFixed(2)}
-          </label>
-          <input
-            type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
-            value={settings.bloom?.opacity || 0.8}
-            onChange={(e) => updateBloomSettings({ opacity: parseFloat(e.target.value) })}
-            style={{ width: '100%' }}
-          />
-        </div>
-
         <div style={{ marginBottom: '15px' }}>
           <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
             <input
@@ -700,22 +808,58 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
             Enable Mipmap Blur
           </label>
         </div>
-      </div>
 
-      {/* SSAO Controls */}
-      <div style={{ marginBottom: '25px' }}>
-        <h4 style={{ margin: '0 0 15px 0', color: '#6b73ff', fontSize: '16px' }}>🌑 SSAO (Ambient Occlusion)</h4>
-        
         <div style={{ marginBottom: '15px' }}>
-          <label style={{ display: 'block', marginBottom: '5px' }}>
-            Intensity: {(settings.ssao?.intensity || 0).toFixed(2)}
-          </label>
-          <input
-            type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
-            value={settings.ssao?.intensity || 0}
+          <label style={{ display: 'block', marginBottom: '5px' }}>Bloom Source</label>
+          <select
+            value={settings.bloom.selective ? 'selective' : 'global'}
+            onChange={(e) => updateBloomSettings({ selective: e.target.value === 'selective' })}
+            style={{ width: '100%', padding: '5px', background: '#333', color: 'white', border: '1px solid #555' }}
+          >
+            <option value="global">Global (everything above the threshold)</option>
+            <option value="selective">Selective (chosen objects only)</option>
+          </select>
+        </div>
+
+        {settings.bloom.selective && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Bloom Layer: {settings.bloom.selectionLayer}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.bloom.selectionLayer)}
+                value={settings.bloom.selectionLayer}
+                onChange={(e) => updateBloomSettings({ selectionLayer: parseInt(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+              <div style={{ fontSize: '10px', color: '#888', marginTop: '4px' }}>
+                Objects on this layer bloom along with the meshes below. The default is {BLOOM_LAYER};
+                the whole logo is on layer {LOGO_LAYER}.
+              </div>
+            </div>
+
+            <BloomMeshPicker
+              meshNames={settings.bloom.meshNames}
+              onChange={(meshNames) => updateBloomSettings({ meshNames })}
+            />
+          </>
+        )}
+      </div>
+
+      {/* SSAO Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#6b73ff', fontSize: '16px' }}>🌑 SSAO (Ambient Occlusion)</h4>
+        
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>
+            Intensity: {(settings.ssao?.intensity || 0).toFixed(2)}
+          </label>
+          <input
+            type="range"
+            {...rangeProps(postProcessingSchema.ssao.intensity)}
+            value={settings.ssao?.intensity || 0}
             onChange={(e) => updateSSAOSettings({ intensity: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
           />
@@ -727,9 +871,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="2.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.radius)}
             value={settings.ssao?.radius || 1.0}
             onChange={(e) => updateSSAOSettings({ radius: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -742,9 +884,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.0"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.bias)}
             value={settings.ssao?.bias || 0}
             onChange={(e) => updateSSAOSettings({ bias: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -757,9 +897,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="1"
-            max="32"
-            step="1"
+            {...rangeProps(postProcessingSchema.ssao.samples)}
             value={settings.ssao?.samples || 16}
             onChange={(e) => updateSSAOSettings({ samples: parseInt(e.target.value) })}
             style={{ width: '100%' }}
@@ -772,9 +910,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="1"
-            max="8"
-            step="1"
+            {...rangeProps(postProcessingSchema.ssao.rings)}
             value={settings.ssao?.rings || 4}
             onChange={(e) => updateSSAOSettings({ rings: parseInt(e.target.value) })}
             style={{ width: '100%' }}
@@ -787,9 +923,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="2.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.distanceThreshold)}
             value={settings.ssao?.distanceThreshold || 1.0}
             onChange={(e) => updateSSAOSettings({ distanceThreshold: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -802,9 +936,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.ssao.distanceFalloff)}
             value={settings.ssao?.distanceFalloff || 0.5}
             onChange={(e) => updateSSAOSettings({ distanceFalloff: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -820,15 +952,15 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
             <input
               type="checkbox"
-              checked={settings.depthOfField?.enabled || false}
-              onChange={(e) => updateDepthOfFieldSettings({ enabled: e.target.checked })}
+              checked={isEffectEnabled('depthOfField')}
+              onChange={(e) => setEffectEnabled('depthOfField', e.target.checked)}
               style={{ marginRight: '8px' }}
             />
             Enable Depth of Field
           </label>
         </div>
 
-        {settings.depthOfField?.enabled && (
+        {isEffectEnabled('depthOfField') && (
           <>
             <div style={{ marginBottom: '15px' }}>
               <label style={{ display: 'block', marginBottom: '5px' }}>
@@ -836,9 +968,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="1.0"
-                max="20.0"
-                step="0.1"
+                {...rangeProps(postProcessingSchema.depthOfField.focusDistance)}
                 value={settings.depthOfField?.focusDistance || 10.0}
                 onChange={(e) => updateDepthOfFieldSettings({ focusDistance: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -851,9 +981,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="10.0"
-                max="100.0"
-                step="1.0"
+                {...rangeProps(postProcessingSchema.depthOfField.focalLength)}
                 value={settings.depthOfField?.focalLength || 50.0}
                 onChange={(e) => updateDepthOfFieldSettings({ focalLength: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -866,9 +994,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.1"
-                max="2.0"
-                step="0.05"
+                {...rangeProps(postProcessingSchema.depthOfField.bokehScale)}
                 value={settings.depthOfField?.bokehScale || 1.0}
                 onChange={(e) => updateDepthOfFieldSettings({ bokehScale: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -886,15 +1012,15 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
             <input
               type="checkbox"
-              checked={settings.lensDistortion?.enabled || false}
-              onChange={(e) => updateLensDistortionSettings({ enabled: e.target.checked })}
+              checked={isEffectEnabled('lensDistortion')}
+              onChange={(e) => setEffectEnabled('lensDistortion', e.target.checked)}
               style={{ marginRight: '8px' }}
             />
             Enable Lens Distortion
           </label>
         </div>
 
-        {settings.lensDistortion?.enabled && (
+        {isEffectEnabled('lensDistortion') && (
           <>
             <div style={{ marginBottom: '15px' }}>
               <label style={{ display: 'block', marginBottom: '5px' }}>
@@ -902,9 +1028,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="-0.5"
-                max="0.5"
-                step="0.01"
+                {...rangeProps(postProcessingSchema.lensDistortion.barrelDistortion)}
                 value={settings.lensDistortion?.barrelDistortion || 0.0}
                 onChange={(e) => updateLensDistortionSettings({ barrelDistortion: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -920,9 +1044,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.0"
-                max="0.02"
-                step="0.0001"
+                {...rangeProps(postProcessingSchema.lensDistortion.chromaticAberration)}
                 value={settings.lensDistortion?.chromaticAberration || 0.0}
                 onChange={(e) => updateLensDistortionSettings({ chromaticAberration: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -938,9 +1060,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.0"
-                max="2.0"
-                step="0.01"
+                {...rangeProps(postProcessingSchema.lensDistortion.vignette)}
                 value={settings.lensDistortion?.vignette || 0.0}
                 onChange={(e) => updateLensDistortionSettings({ vignette: parseFloat(e.target.value) })}
                 style={{ width: '100%' }}
@@ -953,9 +1073,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.0"
-                max="1.0"
-                step="0.01"
+                {...rangeProps(postProcessingSchema.lensDistortion.center)}
                 value={settings.lensDistortion?.center?.[0] || 0.5}
                 onChange={(e) => updateLensDistortionSettings({ 
                   center: [parseFloat(e.target.value), settings.lensDistortion?.center?.[1] || 0.5] 
@@ -970,9 +1088,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
               </label>
               <input
                 type="range"
-                min="0.0"
-                max="1.0"
-                step="0.01"
+                {...rangeProps(postProcessingSchema.lensDistortion.center)}
                 value={settings.lensDistortion?.center?.[1] || 0.5}
                 onChange={(e) => updateLensDistortionSettings({ 
                   center: [settings.lensDistortion?.center?.[0] || 0.5, parseFloat(e.target.value)] 
@@ -984,6 +1100,418 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
         )}
       </div>
 
+      {/* Vignette Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#7f8c8d', fontSize: '16px' }}>🌘 Vignette</h4>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={isEffectEnabled('vignette')}
+              onChange={(e) => setEffectEnabled('vignette', e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Enable Vignette
+          </label>
+        </div>
+
+        {isEffectEnabled('vignette') && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Technique:</label>
+              <select
+                value={settings.vignette.technique}
+                onChange={(e) => updateVignetteSettings({ technique: parseInt(e.target.value) as VignetteTechnique })}
+                style={{
+                  width: '100%',
+                  padding: '5px',
+                  background: '#333',
+                  color: 'white',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                }}
+              >
+                {postProcessingSchema.vignette.technique.options.map((technique) => (
+                  <option key={technique.value} value={technique.value}>
+                    {technique.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Darkness: {settings.vignette.darkness.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.vignette.darkness)}
+                value={settings.vignette.darkness}
+                onChange={(e) => updateVignetteSettings({ darkness: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Offset: {settings.vignette.offset.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.vignette.offset)}
+                value={settings.vignette.offset}
+                onChange={(e) => updateVignetteSettings({ offset: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                Tint:
+                <input
+                  type="color"
+                  value={settings.vignette.color}
+                  onChange={(e) => updateVignetteSettings({ color: e.target.value })}
+                  style={{ width: '40px', height: '22px', padding: 0, border: 'none', background: 'transparent' }}
+                />
+                <span style={{ color: '#888', fontSize: '11px' }}>{settings.vignette.color}</span>
+              </label>
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Aspect: {settings.vignette.aspect.toFixed(2)}× (above 1 is wider)
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.vignette.aspect)}
+                value={settings.vignette.aspect}
+                onChange={(e) => updateVignetteSettings({ aspect: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Center X: {settings.vignette.center[0].toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.vignette.center)}
+                value={settings.vignette.center[0]}
+                onChange={(e) => updateVignetteSettings({
+                  center: [parseFloat(e.target.value), settings.vignette.center[1]]
+                })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Center Y: {settings.vignette.center[1].toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.vignette.center)}
+                value={settings.vignette.center[1]}
+                onChange={(e) => updateVignetteSettings({
+                  center: [settings.vignette.center[0], parseFloat(e.target.value)]
+                })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* God Rays Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#f1c40f', fontSize: '16px' }}>☀️ God Rays</h4>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={isEffectEnabled('godRays')}
+              onChange={(e) => setEffectEnabled('godRays', e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Enable God Rays
+          </label>
+        </div>
+
+        {isEffectEnabled('godRays') && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Light Source:</label>
+              <select
+                value={settings.godRays.source}
+                onChange={(e) => updateGodRaysSettings({ source: parseInt(e.target.value) })}
+                style={{
+                  width: '100%',
+                  padding: '5px',
+                  background: '#333',
+                  color: 'white',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                }}
+              >
+                {postProcessingSchema.godRays.source.options.map((source) => (
+                  <option key={source.value} value={source.value}>
+                    {source.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {settings.godRays.source === GOD_RAYS_CUSTOM_EMITTER && (
+              <>
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px' }}>
+                    Emitter X: {settings.godRays.emitterX.toFixed(1)}
+                  </label>
+                  <input
+                    type="range"
+                    {...rangeProps(postProcessingSchema.godRays.emitterX)}
+                    value={settings.godRays.emitterX}
+                    onChange={(e) => updateGodRaysSettings({ emitterX: parseFloat(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px' }}>
+                    Emitter Y: {settings.godRays.emitterY.toFixed(1)}
+                  </label>
+                  <input
+                    type="range"
+                    {...rangeProps(postProcessingSchema.godRays.emitterY)}
+                    value={settings.godRays.emitterY}
+                    onChange={(e) => updateGodRaysSettings({ emitterY: parseFloat(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px' }}>
+                    Emitter Z: {settings.godRays.emitterZ.toFixed(1)}
+                  </label>
+                  <input
+                    type="range"
+                    {...rangeProps(postProcessingSchema.godRays.emitterZ)}
+                    value={settings.godRays.emitterZ}
+                    onChange={(e) => updateGodRaysSettings({ emitterZ: parseFloat(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </>
+            )}
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Emitter Size: {settings.godRays.emitterSize.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.emitterSize)}
+                value={settings.godRays.emitterSize}
+                onChange={(e) => updateGodRaysSettings({ emitterSize: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Density: {settings.godRays.density.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.density)}
+                value={settings.godRays.density}
+                onChange={(e) => updateGodRaysSettings({ density: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Decay: {settings.godRays.decay.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.decay)}
+                value={settings.godRays.decay}
+                onChange={(e) => updateGodRaysSettings({ decay: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Weight: {settings.godRays.weight.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.weight)}
+                value={settings.godRays.weight}
+                onChange={(e) => updateGodRaysSettings({ weight: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Exposure: {settings.godRays.exposure.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.exposure)}
+                value={settings.godRays.exposure}
+                onChange={(e) => updateGodRaysSettings({ exposure: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Samples: {settings.godRays.samples}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.godRays.samples)}
+                value={settings.godRays.samples}
+                onChange={(e) => updateGodRaysSettings({ samples: parseInt(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Color Grade Controls */}
+      <div style={{ marginBottom: '25px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#e8a87c', fontSize: '16px' }}>🎚️ Color Grade</h4>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={isEffectEnabled('colorGrade')}
+              onChange={(e) => setEffectEnabled('colorGrade', e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Enable Color Grade
+          </label>
+        </div>
+
+        {isEffectEnabled('colorGrade') && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Temperature: {settings.colorGrade.temperature.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.temperature)}
+                value={settings.colorGrade.temperature}
+                onChange={(e) => updateColorGradeSettings({ temperature: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Tint: {settings.colorGrade.tint.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.tint)}
+                value={settings.colorGrade.tint}
+                onChange={(e) => updateColorGradeSettings({ tint: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Contrast: {settings.colorGrade.contrast.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.contrast)}
+                value={settings.colorGrade.contrast}
+                onChange={(e) => updateColorGradeSettings({ contrast: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Saturation: {settings.colorGrade.saturation.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.saturation)}
+                value={settings.colorGrade.saturation}
+                onChange={(e) => updateColorGradeSettings({ saturation: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Vibrance: {settings.colorGrade.vibrance.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.vibrance)}
+                value={settings.colorGrade.vibrance}
+                onChange={(e) => updateColorGradeSettings({ vibrance: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Hue Shift: {settings.colorGrade.hue.toFixed(0)}°
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.colorGrade.hue)}
+                value={settings.colorGrade.hue}
+                onChange={(e) => updateColorGradeSettings({ hue: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '15px' }}>
+              <ColorWheel
+                label="Lift"
+                position={settings.colorGrade.lift}
+                luminance={settings.colorGrade.liftLuminance}
+                onChange={(lift) => updateColorGradeSettings({ lift })}
+                onLuminanceChange={(liftLuminance) => updateColorGradeSettings({ liftLuminance })}
+              />
+              <ColorWheel
+                label="Gamma"
+                position={settings.colorGrade.gamma}
+                luminance={settings.colorGrade.gammaLuminance}
+                onChange={(gamma) => updateColorGradeSettings({ gamma })}
+                onLuminanceChange={(gammaLuminance) => updateColorGradeSettings({ gammaLuminance })}
+              />
+              <ColorWheel
+                label="Gain"
+                position={settings.colorGrade.gain}
+                luminance={settings.colorGrade.gainLuminance}
+                onChange={(gain) => updateColorGradeSettings({ gain })}
+                onLuminanceChange={(gainLuminance) => updateColorGradeSettings({ gainLuminance })}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Tone Mapping Controls */}
       <div style={{ marginBottom: '20px' }}>
         <h4 style={{ margin: '0 0 15px 0', color: '#9caf88', fontSize: '16px' }}>🎨 Tone Mapping</h4>
@@ -991,8 +1519,8 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
         <div style={{ marginBottom: '15px' }}>
           <label style={{ display: 'block', marginBottom: '5px' }}>Mode:</label>
           <select
-            value={settings.toneMapping?.mode || ToneMappingMode.ACES_FILMIC}
-            onChange={(e) => updateToneMappingSettings({ mode: parseInt(e.target.value) as ToneMappingMode })}
+            value={settings.toneMapping.mode}
+            onChange={(e) => updateToneMappingSettings({ mode: parseInt(e.target.value) as ToneMappingSettings['mode'] })}
             style={{
               width: '100%',
               padding: '5px',
@@ -1016,9 +1544,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="3.0"
-            step="0.1"
+            {...rangeProps(postProcessingSchema.toneMapping.exposure)}
             value={settings.toneMapping?.exposure || 1.2}
             onChange={(e) => updateToneMappingSettings({ exposure: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -1031,9 +1557,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="1.0"
-            max="32.0"
-            step="1.0"
+            {...rangeProps(postProcessingSchema.toneMapping.whitePoint)}
             value={settings.toneMapping?.whitePoint || 16.0}
             onChange={(e) => updateToneMappingSettings({ whitePoint: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -1046,9 +1570,7 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="1.0"
-            step="0.05"
+            {...rangeProps(postProcessingSchema.toneMapping.middleGrey)}
             value={settings.toneMapping?.middleGrey || 0.6}
             onChange={(e) => updateToneMappingSettings({ middleGrey: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
@@ -1061,14 +1583,99 @@ const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({
           </label>
           <input
             type="range"
-            min="0.1"
-            max="2.0"
-            step="0.1"
+            {...rangeProps(postProcessingSchema.toneMapping.adaptation)}
             value={settings.toneMapping?.adaptation || 1.0}
             onChange={(e) => updateToneMappingSettings({ adaptation: parseFloat(e.target.value) })}
             style={{ width: '100%' }}
           />
         </div>
+
+        {settings.toneMapping.mode === TONE_MAPPING_CUSTOM && (
+          <ToneCurveControls toneMapping={settings.toneMapping} onChange={updateToneMappingSettings} />
+        )}
+      </div>
+
+      {/* LUT Controls */}
+      <div style={{ marginBottom: '20px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#d4a5a5', fontSize: '16px' }}>🎞 LUT Grade</h4>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={isEffectEnabled('lut')}
+              onChange={(e) => setEffectEnabled('lut', e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Enable LUT
+          </label>
+        </div>
+
+        {isEffectEnabled('lut') && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>LUT:</label>
+              <select
+                value={settings.lut.lutId}
+                onChange={(e) => updateLutSettings({ lutId: e.target.value })}
+                style={{
+                  width: '100%',
+                  padding: '5px',
+                  background: '#333',
+                  color: 'white',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                }}
+              >
+                <option value="">None</option>
+                {settings.lut.lutId && !luts.some((lut) => lut.id === settings.lut.lutId) && (
+                  <option value={settings.lut.lutId}>(missing LUT)</option>
+                )}
+                {luts.map((lut) => (
+                  <option key={lut.id} value={lut.id}>
+                    {lut.title || lut.name} ({lut.kind})
+                  </option>
+                ))}
+              </select>
+              {luts.length === 0 && (
+                <div style={{ fontSize: '10px', color: '#888', marginTop: '4px' }}>
+                  Import a .cube file from the settings manager.
+                </div>
+              )}
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>
+                Intensity: {settings.lut.intensity.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                {...rangeProps(postProcessingSchema.lut.intensity)}
+                value={settings.lut.intensity}
+                onChange={(e) => updateLutSettings({ intensity: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={settings.lut.tetrahedral}
+                  onChange={(e) => updateLutSettings({ tetrahedral: e.target.checked })}
+                  style={{ marginRight: '8px' }}
+                />
+                Tetrahedral interpolation
+              </label>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Anti-aliasing Controls */}
+      <div style={{ marginBottom: '20px' }}>
+        <h4 style={{ margin: '0 0 15px 0', color: '#5dade2', fontSize: '16px' }}>🔲 Anti-aliasing</h4>
+        <AntialiasingControls antialiasing={settings.antialiasing} onChange={updateAntialiasingSettings} />
       </div>
 
       <button
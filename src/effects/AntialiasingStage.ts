@@ -0,0 +1,68 @@
+import { EffectPass, FXAAEffect, SMAAEffect } from 'postprocessing';
+import type { EffectComposer, SMAAPreset } from 'postprocessing';
+import * as THREE from 'three';
+import { ANTIALIASING_FXAA, ANTIALIASING_MSAA, ANTIALIASING_SMAA } from '../utils/postProcessingSchema';
+import type { AntialiasingSettings } from '../utils/postProcessingSchema';
+
+/** Sample count for the composer's frame buffers; only MSAA multisamples */
+export const msaaSamples = (settings: AntialiasingSettings, renderer: THREE.WebGLRenderer) =>
+  settings.mode === ANTIALIASING_MSAA ? Math.min(settings.msaaSamples, renderer.capabilities.maxSamples) : 0;
+
+/**
+ * Owns a composer's anti-aliasing: the MSAA sample count of its buffers, or
+ * an SMAA/FXAA pass on the finished image. That pass goes last, so add it
+ * after the composer's other passes; later passes should be inserted before it.
+ */
+export class AntialiasingStage {
+  private readonly composer: EffectComposer;
+  private readonly camera: THREE.Camera;
+  private pass: EffectPass | null = null;
+  private smaa: SMAAEffect | null = null;
+  private mode: number | null = null;
+  private smaaPreset: SMAAPreset | null = null;
+
+  constructor(composer: EffectComposer, camera: THREE.Camera) {
+    this.composer = composer;
+    this.camera = camera;
+  }
+
+  /** Switches mode, sample count or preset without touching anything else */
+  apply(settings: AntialiasingSettings) {
+    const samples = msaaSamples(settings, this.composer.getRenderer());
+    // The setter reallocates the buffers even when the count is unchanged
+    if (this.composer.multisampling !== samples) {
+      this.composer.multisampling = samples;
+    }
+
+    if (settings.mode !== this.mode) {
+      this.mode = settings.mode;
+      this.smaaPreset = settings.smaaPreset;
+      this.rebuildPass(settings);
+    } else if (this.smaa && settings.smaaPreset !== this.smaaPreset) {
+      this.smaaPreset = settings.smaaPreset;
+      this.smaa.applyPreset(settings.smaaPreset);
+    }
+  }
+
+  private rebuildPass(settings: AntialiasingSettings) {
+    if (this.pass) {
+      this.composer.removePass(this.pass);
+      this.pass.dispose();
+      this.pass = null;
+      this.smaa = null;
+    }
+
+    let effect: SMAAEffect | FXAAEffect | null = null;
+    if (settings.mode === ANTIALIASING_SMAA) {
+      this.smaa = new SMAAEffect({ preset: settings.smaaPreset });
+      effect = this.smaa;
+    } else if (settings.mode === ANTIALIASING_FXAA) {
+      effect = new FXAAEffect();
+    }
+
+    if (effect) {
+      this.pass = new EffectPass(this.camera, effect);
+      this.composer.addPass(this.pass);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { BlendFunction, Effect } from 'postprocessing';
+import * as THREE from 'three';
+
+// How far each wheel can push its range at full deflection
+const WHEEL_STRENGTH = { lift: 0.2, gamma: 0.5, gain: 0.5 };
+
+export type ColorWheel = keyof typeof WHEEL_STRENGTH;
+
+// Primary colour grade on the linear HDR image, meant to run before tone
+// mapping. Every control is neutral at its default, leaving the image untouched.
+export class ColorGradeEffect extends Effect {
+  constructor() {
+    const fragmentShader = `
+      uniform float temperature;
+      uniform float tint;
+      uniform float contrast;
+      uniform float saturation;
+      uniform float vibrance;
+      uniform float hue;
+      uniform vec3 lift;
+      uniform vec3 gamma;
+      uniform vec3 gain;
+
+      // Rotates a colour around the grey axis
+      vec3 rotateHue(vec3 color, float angle) {
+        const vec3 axis = vec3(0.57735);
+        float c = cos(angle);
+        return color * c + cross(axis, color) * sin(angle) + axis * dot(axis, color) * (1.0 - c);
+      }
+
+      // EffectPass merges effects into one shader and only prefixes functions,
+      // uniforms and defines, so constants stay local and luminance() is the
+      // one three declares for every ShaderMaterial
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        // Contrast pivots around middle grey so highlights above 1.0 survive
+        const float pivot = 0.18;
+        vec3 color = max(inputColor.rgb, 0.0);
+
+        // White balance: temperature trades blue for red, tint trades green for magenta
+        vec3 balance = vec3(1.0 + 0.3 * temperature, 1.0 - 0.3 * tint, 1.0 - 0.3 * temperature);
+        color *= balance / luminance(balance);
+
+        // Lift raises the shadows, gain scales everything, gamma bends the mids
+        color = color + lift * max(1.0 - color, 0.0);
+        color *= 1.0 + gain;
+        color = pow(max(color, 0.0), 1.0 / max(1.0 + gamma, vec3(0.1)));
+
+        color = pivot * pow(color / pivot, vec3(contrast));
+
+        float luma = luminance(color);
+        float chroma = max(max(color.r, color.g), color.b) - min(min(color.r, color.g), color.b);
+        // Vibrance favours colours that aren't saturated yet
+        float amount = saturation * (1.0 + vibrance * (1.0 - clamp(chroma / max(luma, 1e-4), 0.0, 1.0)));
+        color = max(mix(vec3(luma), color, amount), 0.0);
+
+        color = max(rotateHue(color, radians(hue)), 0.0);
+
+        outputColor = vec4(color, inputColor.a);
+      }
+    `;
+
+    super("ColorGrade", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      uniforms: new Map<string, THREE.Uniform>([
+        ["temperature", new THREE.Uniform(0.0)],
+        ["tint", new THREE.Uniform(0.0)],
+        ["contrast", new THREE.Uniform(1.0)],
+        ["saturation", new THREE.Uniform(1.0)],
+        ["vibrance", new THREE.Uniform(0.0)],
+        ["hue", new THREE.Uniform(0.0)],
+        ["lift", new THREE.Uniform(new THREE.Vector3())],
+        ["gamma", new THREE.Uniform(new THREE.Vector3())],
+        ["gain", new THREE.Uniform(new THREE.Vector3())]
+      ])
+    });
+  }
+
+  /**
+   * Sets one colour wheel from its puck position (x/y in the unit disc, the
+   * angle picks the hue) and its luminance slider.
+   */
+  setWheel(wheel: ColorWheel, position: [number, number], luminance: number) {
+    const [x, y] = position;
+    const magnitude = Math.min(Math.hypot(x, y), 1);
+    const hue = ((Math.atan2(y, x) / (Math.PI * 2)) + 1) % 1;
+    const color = new THREE.Color().setHSL(hue, 1, 0.5);
+    // Only the direction away from grey, so the puck doesn't change brightness
+    const mean = (color.r + color.g + color.b) / 3;
+    const strength = WHEEL_STRENGTH[wheel];
+
+    this.uniforms.get(wheel)!.value.set(
+      ((color.r - mean) * magnitude + luminance) * strength,
+      ((color.g - mean) * magnitude + luminance) * strength,
+      ((color.b - mean) * magnitude + luminance) * strength
+    );
+  }
+
+  get temperature() {
+    return this.uniforms.get("temperature")!.value;
+  }
+
+  set temperature(value: number) {
+    this.uniforms.get("temperature")!.value = value;
+  }
+
+  get tint() {
+    return this.uniforms.get("tint")!.value;
+  }
+
+  set tint(value: number) {
+    this.uniforms.get("tint")!.value = value;
+  }
+
+  get contrast() {
+    return this.uniforms.get("contrast")!.value;
+  }
+
+  set contrast(value: number) {
+    this.uniforms.get("contrast")!.value = value;
+  }
+
+  get saturation() {
+    return this.uniforms.get("saturation")!.value;
+  }
+
+  set saturation(value: number) {
+    this.uniforms.get("saturation")!.value = value;
+  }
+
+  get vibrance() {
+    return this.uniforms.get("vibrance")!.value;
+  }
+
+  set vibrance(value: number) {
+    this.uniforms.get("vibrance")!.value = value;
+  }
+
+  // Degrees
+  get hue() {
+    return this.uniforms.get("hue")!.value;
+  }
+
+  set hue(value: number) {
+    this.uniforms.get("hue")!.value = value;
+  }
+}
@@ -0,0 +1,142 @@
+import { BlendFunction, Effect } from 'postprocessing';
+import * as THREE from 'three';
+
+// Grain seeds repeat after this many frames, far too many to notice
+const SEED_PERIOD = 997;
+
+// Animated film grain that composites itself onto the image, so it belongs
+// on a NORMAL blend; the stack opacity then fades it in and out. Grain is
+// multiplicative and shaped by luminance like real emulsion.
+export class FilmGrainEffect extends Effect {
+  // Grain frames per second; 0 freezes the pattern
+  animationRate = 24;
+
+  private time = 0;
+  private frame = -1;
+
+  constructor() {
+    const fragmentShader = `
+      uniform float intensity;
+      uniform float size;
+      uniform float seed;
+      uniform float shadows;
+      uniform float highlights;
+
+      float hash13(vec3 p3) {
+        p3 = fract(p3 * 0.1031);
+        p3 += dot(p3, p3.zyx + 31.32);
+        return fract((p3.x + p3.y) * p3.z);
+      }
+
+      // Value noise so grains larger than a pixel have soft edges
+      float grainNoise(vec2 p, float frameSeed) {
+        vec2 i = floor(p);
+        vec2 f = fract(p);
+        f = f * f * (3.0 - 2.0 * f);
+        float a = hash13(vec3(i, frameSeed));
+        float b = hash13(vec3(i + vec2(1.0, 0.0), frameSeed));
+        float c = hash13(vec3(i + vec2(0.0, 1.0), frameSeed));
+        float d = hash13(vec3(i + vec2(1.0, 1.0), frameSeed));
+        return mix(mix(a, b, f.x), mix(c, d, f.x), f.y) * 2.0 - 1.0;
+      }
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec2 p = uv * resolution / size;
+
+        #ifdef MONOCHROME
+          vec3 grain = vec3(grainNoise(p, seed));
+        #else
+          vec3 grain = vec3(
+            grainNoise(p, seed),
+            grainNoise(p + vec2(37.0, 17.0), seed + 0.31),
+            grainNoise(p + vec2(59.0, 83.0), seed + 0.67)
+          );
+        #endif
+
+        // Perceptual brightness picks the response: shadows at 0, midtones
+        // peak at full strength, highlights at 1
+        float tone = clamp(pow(max(luminance(inputColor.rgb), 0.0), 1.0 / 2.2), 0.0, 1.0);
+        float response = tone < 0.5
+          ? mix(shadows, 1.0, tone * 2.0)
+          : mix(1.0, highlights, tone * 2.0 - 1.0);
+
+        vec3 color = inputColor.rgb * max(1.0 + grain * intensity * response, 0.0);
+        outputColor = vec4(color, inputColor.a);
+      }
+    `;
+
+    super("FilmGrain", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      defines: new Map([["MONOCHROME", "1"]]),
+      uniforms: new Map<string, THREE.Uniform>([
+        ["intensity", new THREE.Uniform(0.3)],
+        ["size", new THREE.Uniform(1.5)],
+        ["seed", new THREE.Uniform(0.0)],
+        ["shadows", new THREE.Uniform(0.6)],
+        ["highlights", new THREE.Uniform(0.2)]
+      ])
+    });
+  }
+
+  update(_renderer: THREE.WebGLRenderer, _inputBuffer: THREE.WebGLRenderTarget, deltaTime = 0) {
+    if (this.animationRate <= 0) return;
+
+    this.time += deltaTime;
+    const frame = Math.floor(this.time * this.animationRate) % SEED_PERIOD;
+    if (frame !== this.frame) {
+      this.frame = frame;
+      this.uniforms.get("seed")!.value = frame;
+    }
+  }
+
+  get intensity() {
+    return this.uniforms.get("intensity")!.value;
+  }
+
+  set intensity(value: number) {
+    this.uniforms.get("intensity")!.value = value;
+  }
+
+  // Grain size in pixels
+  get size() {
+    return this.uniforms.get("size")!.value;
+  }
+
+  set size(value: number) {
+    this.uniforms.get("size")!.value = value;
+  }
+
+  // Grain strength in the shadows, relative to the midtones
+  get shadows() {
+    return this.uniforms.get("shadows")!.value;
+  }
+
+  set shadows(value: number) {
+    this.uniforms.get("shadows")!.value = value;
+  }
+
+  // Grain strength in the highlights, relative to the midtones
+  get highlights() {
+    return this.uniforms.get("highlights")!.value;
+  }
+
+  set highlights(value: number) {
+    this.uniforms.get("highlights")!.value = value;
+  }
+
+  get monochrome() {
+    return this.defines.has("MONOCHROME");
+  }
+
+  // A shader define, so changing it recompiles the pass
+  set monochrome(value: boolean) {
+    if (this.monochrome !== value) {
+      if (value) {
+        this.defines.set("MONOCHROME", "1");
+      } else {
+        this.defines.delete("MONOCHROME");
+      }
+      this.setChanged();
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { BlendFunction, Effect, EffectAttribute } from 'postprocessing';
+import * as THREE from 'three';
+
+// Custom Lens Distortion Effect
+export class LensDistortionEffect extends Effect {
+  constructor() {
+    const fragmentShader = `
+      uniform float barrelDistortion;
+      uniform float chromaticAberration;
+      uniform float vignette;
+      uniform vec2 center;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec2 centeredUV = uv - center;
+        float distance = length(centeredUV);
+        
+        // Barrel/Pincushion distortion
+        float distortionFactor = 1.0 + barrelDistortion * distance * distance;
+        vec2 distortedUV = center + centeredUV * distortionFactor;
+        
+        // Chromatic aberration (lens distortion type)
+        float aberrationIntensity = chromaticAberration * distance;
+        vec2 redOffset = vec2(aberrationIntensity, 0.0);
+        vec2 blueOffset = vec2(-aberrationIntensity, 0.0);
+        
+        // Sample with aberration offsets
+        float r = texture2D(inputBuffer, distortedUV + redOffset).r;
+        float g = texture2D(inputBuffer, distortedUV).g;
+        float b = texture2D(inputBuffer, distortedUV + blueOffset).b;
+        
+        vec3 color = vec3(r, g, b);
+        
+        // Vignette effect
+        float vignetteAmount = 1.0 - vignette * distance * distance;
+        color *= vignetteAmount;
+        
+        // Ensure we stay within UV bounds
+        if (distortedUV.x < 0.0 || distortedUV.x > 1.0 || distortedUV.y < 0.0 || distortedUV.y > 1.0) {
+          color = vec3(0.0);
+        }
+        
+        outputColor = vec4(color, inputColor.a);
+      }
+    `;
+
+    super("LensDistortion", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      // mainImage samples inputBuffer at other pixels
+      attributes: EffectAttribute.CONVOLUTION,
+      uniforms: new Map<string, THREE.Uniform>([
+        ["barrelDistortion", new THREE.Uniform(0.0)],
+        ["chromaticAberration", new THREE.Uniform(0.0)],
+        ["vignette", new THREE.Uniform(0.0)],
+        ["center", new THREE.Uniform(new THREE.Vector2(0.5, 0.5))]
+      ])
+    });
+  }
+
+  get barrelDistortion() {
+    return this.uniforms.get("barrelDistortion")!.value;
+  }
+
+  set barrelDistortion(value: number) {
+    this.uniforms.get("barrelDistortion")!.value = value;
+  }
+
+  get chromaticAberration() {
+    return this.uniforms.get("chromaticAberration")!.value;
+  }
+
+  set chromaticAberration(value: number) {
+    this.uniforms.get("chromaticAberration")!.value = value;
+  }
+
+  get vignette() {
+    return this.uniforms.get("vignette")!.value;
+  }
+
+  set vignette(value: number) {
+    this.uniforms.get("vignette")!.value = value;
+  }
+
+  get center() {
+    return this.uniforms.get("center")!.value;
+  }
+
+  set center(value: THREE.Vector2) {
+    this.uniforms.get("center")!.value = value;
+  }
+}
@@ -0,0 +1,633 @@
+import {
+  EffectComposer,
+  RenderPass,
+  EffectPass,
+  EffectAttribute,
+  ToneMappingEffect,
+  BloomEffect,
+  SelectiveBloomEffect,
+  SSAOEffect,
+  DepthOfFieldEffect,
+  GodRaysEffect,
+  LUT3DEffect,
+  GaussianBlurPass,
+  KernelSize,
+  ToneMappingMode,
+} from 'postprocessing';
+import type { Effect, LookupTexture } from 'postprocessing';
+import * as THREE from 'three';
+import { getStackEntry, GOD_RAYS_LIGHTS, LOGO_LAYER, TONE_MAPPING_CUSTOM } from '../utils/postProcessingSchema';
+import type { EffectId, PostProcessingSettings } from '../utils/postProcessingSchema';
+import { diffSettings } from '../utils/settingsDiff';
+import { RGBChromaticAberrationEffect } from './RGBChromaticAberrationEffect';
+import { LensDistortionEffect } from './LensDistortionEffect';
+import { VignetteEffect } from './VignetteEffect';
+import { ColorGradeEffect } from './ColorGradeEffect';
+import { FilmGrainEffect } from './FilmGrainEffect';
+import { ToneCurveEffect } from './ToneCurveEffect';
+import { AntialiasingStage, msaaSamples } from './AntialiasingStage';
+import { QUALITY_TIERS, limitAntialiasing } from '../utils/qualityGovernor';
+import type { QualityTier } from '../utils/qualityGovernor';
+
+// EffectPass.dispose() also disposes its effects, but the pipeline carries
+// them over to the replacement pass, so they're detached first
+class SharedEffectPass extends EffectPass {
+  detachEffects() {
+    this.setEffects([]);
+  }
+}
+
+/**
+ * Whether an effect has to start a new pass to see the effects above it in
+ * the stack. Effects in one pass all get the pass's input, so one that
+ * samples it at other pixels (convolution), blurs it into its own output
+ * (bloom) or reads depth (which EffectPass sorts to the front) would
+ * otherwise skip or jump ahead of everything before it. Selective bloom
+ * reads depth as well, so both bloom types sit in the same place.
+ */
+const startsPass = (effect: Effect) =>
+  (effect.getAttributes() & (EffectAttribute.CONVOLUTION | EffectAttribute.DEPTH)) !== 0 ||
+  effect instanceof BloomEffect;
+
+interface PipelineEffects {
+  toneMapping: ToneMappingEffect;
+  bloom: BloomEffect;
+  chromaticAberration: RGBChromaticAberrationEffect;
+  lensDistortion: LensDistortionEffect;
+  filmGrain: FilmGrainEffect;
+  ssao: SSAOEffect;
+  vignette: VignetteEffect;
+  colorGrade: ColorGradeEffect;
+  depthOfField: DepthOfFieldEffect | null;
+  godRays: GodRaysEffect | null;
+  lut: LUT3DEffect | null;
+}
+
+/**
+ * Owns the EffectComposer and keeps it in step with the settings.
+ *
+ * `update()` diffs the new settings against the previous ones: most fields
+ * are written straight into uniforms or materials, and only fields that
+ * need new GPU resources rebuild the one effect or pass they belong to.
+ * The effect stack decides which effects run, in what order, and how each
+ * one blends over the effects before it. Effects are merged into as few
+ * passes as that order allows.
+ */
+export class PostProcessingPipeline {
+  readonly composer: EffectComposer;
+
+  private readonly scene: THREE.Scene;
+  private readonly camera: THREE.Camera;
+  private settings: PostProcessingSettings;
+  private effects: PipelineEffects;
+  // Consecutive in the composer, in stack order
+  private effectPasses: SharedEffectPass[];
+  private blurPass: GaussianBlurPass | null = null;
+  private godRaysSource: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial> | null = null;
+  // Name of the light the emitter should follow once it appears in the scene
+  private pendingGodRaysLight: string | null = null;
+  // Loaded from the LUT library by the caller, which also disposes it
+  private lookupTexture: LookupTexture | null = null;
+  // Selective bloom mesh names not found in the scene yet, and when they were last looked for
+  private pendingBloomMeshes: string[] = [];
+  private lastBloomMeshSearch = 0;
+  // Exposure and the custom curve, part of the tone mapping stage
+  private readonly toneCurve = new ToneCurveEffect();
+  private readonly antialiasing: AntialiasingStage;
+  // Caps from the adaptive quality governor; the first tier leaves the look untouched
+  private quality: QualityTier;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    settings: PostProcessingSettings,
+    quality: QualityTier = QUALITY_TIERS[0]
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.settings = settings;
+    this.quality = quality;
+    // Exposure is applied in the chain; the operators would multiply by this again
+    renderer.toneMappingExposure = 1;
+
+    // Create composer with high precision frame buffers
+    this.composer = new EffectComposer(renderer, {
+      frameBufferType: THREE.HalfFloatType, // HDR workflow for better color precision
+      multisampling: msaaSamples(limitAntialiasing(settings.antialiasing, quality), renderer),
+    });
+    this.composer.setSize(renderer.domElement.width, renderer.domElement.height);
+    this.composer.addPass(new RenderPass(scene, camera));
+
+    this.effects = {
+      toneMapping: new ToneMappingEffect({
+        mode: settings.toneMapping.mode,
+        resolution: quality.toneMappingResolution,
+        minLuminance: 0.01,
+        averageLuminance: 1.0,
+      }),
+      bloom: this.createBloom(),
+      chromaticAberration: new RGBChromaticAberrationEffect(scene, camera),
+      lensDistortion: new LensDistortionEffect(),
+      filmGrain: new FilmGrainEffect(),
+      ssao: new SSAOEffect(camera, undefined, {
+        minRadiusScale: 0.1,
+        fade: 0.01,
+        color: new THREE.Color(0x000000),
+        resolutionScale: quality.ssaoResolutionScale,
+      }),
+      // Enhanced cinematic effects
+      vignette: new VignetteEffect(),
+      colorGrade: new ColorGradeEffect(),
+      depthOfField: this.runsDepthOfField() ? this.createDepthOfField() : null,
+      godRays: this.isEnabled('godRays') ? this.createGodRays() : null,
+      lut: null,
+    };
+
+    this.applyToneMapping();
+    this.applyBloom();
+    this.applyChromaticAberration();
+    this.applySSAO();
+    this.applyDepthOfField();
+    this.applyLensDistortion();
+    this.applyVignette();
+    this.applyFilmGrain();
+    this.applyColorGrade();
+    this.applyGodRays();
+    this.applyEffectStack();
+
+    this.effectPasses = this.createEffectPasses();
+    this.effectPasses.forEach((pass) => this.composer.addPass(pass));
+    this.rebuildBlurPass();
+    // SMAA/FXAA filter the finished image, so their pass goes last
+    this.antialiasing = new AntialiasingStage(this.composer, camera);
+    this.antialiasing.apply(limitAntialiasing(settings.antialiasing, quality));
+  }
+
+  /** Applies new settings, touching only what changed */
+  update(settings: PostProcessingSettings) {
+    const previous = this.settings;
+    const changedPaths = new Set(diffSettings(previous, settings).map((change) => change.path));
+    if (changedPaths.size === 0) return;
+    this.settings = settings;
+
+    const changedSections = new Set(Array.from(changedPaths, (path) => path.split('.')[0]));
+    const stackChanged = changedSections.has('effectStack');
+    let effectListChanged = stackChanged && !sameEffectList(previous, settings);
+
+    if (changedSections.has('toneMapping')) this.applyToneMapping();
+
+    if (changedPaths.has('bloom.mipmapBlur') || changedPaths.has('bloom.selective')) {
+      // The blur chain and the bloom type are chosen at construction
+      this.disposeBloom();
+      this.effects.bloom = this.createBloom();
+      effectListChanged = true;
+    }
+    if (changedSections.has('bloom')) this.applyBloom();
+
+    if (changedSections.has('chromaticAberration')) this.applyChromaticAberration();
+    if (changedSections.has('ssao')) this.applySSAO();
+
+    // Depth of field and god rays only hold render targets while they're enabled
+    if (this.syncDepthOfField()) {
+      effectListChanged = true;
+    } else if (changedSections.has('depthOfField')) {
+      this.applyDepthOfField();
+    }
+
+    if (changedSections.has('lensDistortion')) this.applyLensDistortion();
+    if (changedSections.has('vignette')) this.applyVignette();
+    if (changedSections.has('filmGrain')) this.applyFilmGrain();
+    if (changedSections.has('colorGrade')) this.applyColorGrade();
+    if (changedSections.has('lut')) this.applyLut();
+
+    if (Boolean(this.effects.godRays) !== this.isEnabled('godRays')) {
+      this.disposeGodRays();
+      this.effects.godRays = this.isEnabled('godRays') ? this.createGodRays() : null;
+      this.applyGodRays();
+    } else if (changedSections.has('godRays')) {
+      this.applyGodRays();
+      this.placeGodRaysSource();
+    }
+
+    // New effect instances start with their own blend settings; the LUT
+    // intensity scales its stack opacity
+    if (stackChanged || effectListChanged || changedPaths.has('lut.intensity')) this.applyEffectStack();
+
+    if (changedSections.has('blur')) this.rebuildBlurPass();
+    if (changedSections.has('antialiasing')) this.antialiasing.apply(limitAntialiasing(settings.antialiasing, this.quality));
+    if (effectListChanged) this.rebuildEffectPass();
+  }
+
+  /**
+   * Swaps the LUT the grading effect samples. The effect only exists while
+   * there is a texture, so a missing or unloaded LUT leaves the image untouched.
+   */
+  setLookupTexture(texture: LookupTexture | null) {
+    if (texture === this.lookupTexture) return;
+    this.lookupTexture = texture;
+
+    const previous = this.effects.lut;
+    this.effects.lut = texture ? new LUT3DEffect(texture) : null;
+    this.applyLut();
+    this.applyEffectStack();
+    this.rebuildEffectPass();
+    previous?.dispose();
+  }
+
+  render(deltaTime?: number) {
+    // The chosen light may mount after the pipeline (the model loads lazily)
+    if (this.pendingGodRaysLight) this.placeGodRaysSource();
+    // Named meshes appear once the model loads; look again now and then
+    if (this.pendingBloomMeshes.length > 0 && performance.now() - this.lastBloomMeshSearch > BLOOM_MESH_SEARCH_INTERVAL) {
+      this.selectBloomMeshes();
+    }
+    this.composer.render(deltaTime);
+  }
+
+  setSize(width: number, height: number) {
+    this.composer.setSize(width, height);
+  }
+
+  dispose() {
+    const active = this.activeEffects();
+    this.composer.dispose();
+    // Effects left out of the pass (disabled in the stack) aren't disposed by the composer
+    Object.values(this.effects).forEach((effect) => {
+      if (effect && !active.includes(effect)) effect.dispose();
+    });
+    if (!active.includes(this.toneCurve)) this.toneCurve.dispose();
+    // The light source mesh lives in the scene, not the composer
+    this.removeGodRaysSource();
+    // Selected meshes would otherwise stay on the bloom layer
+    if (this.effects.bloom instanceof SelectiveBloomEffect) this.effects.bloom.selection.clear();
+  }
+
+  /**
+   * Caps rendering cost with a quality tier. Only resolutions, sample counts,
+   * anti-aliasing and whether depth of field runs change; the look's settings
+   * stay as they are.
+   */
+  setQuality(quality: QualityTier) {
+    if (quality === this.quality) return;
+    this.quality = quality;
+
+    this.effects.toneMapping.resolution = quality.toneMappingResolution;
+    this.effects.bloom.resolution.preferredHeight = quality.bloomHeight;
+    this.effects.ssao.resolution.scale = quality.ssaoResolutionScale;
+    this.applySSAO();
+    this.antialiasing.apply(limitAntialiasing(this.settings.antialiasing, quality));
+
+    if (this.syncDepthOfField()) {
+      this.applyEffectStack();
+      this.rebuildEffectPass();
+    }
+  }
+
+  private isEnabled(id: EffectId) {
+    return getStackEntry(this.settings.effectStack, id).enabled;
+  }
+
+  private runsDepthOfField() {
+    return this.isEnabled('depthOfField') && this.quality.depthOfField;
+  }
+
+  // Creates or drops the depth of field effect to match; true if it did either
+  private syncDepthOfField() {
+    if (Boolean(this.effects.depthOfField) === this.runsDepthOfField()) return false;
+    this.effects.depthOfField?.dispose();
+    this.effects.depthOfField = this.runsDepthOfField() ? this.createDepthOfField() : null;
+    this.applyDepthOfField();
+    return true;
+  }
+
+  /**
+   * Enabled effects in stack order. Exposure goes in just ahead of the tone
+   * mapping operator.
+   */
+  private activeEffects(): Effect[] {
+    return this.settings.effectStack.entries
+      .filter((entry) => entry.enabled)
+      .flatMap((entry): (Effect | null)[] =>
+        entry.id === 'toneMapping' ? [this.toneCurve, this.effects.toneMapping] : [this.effects[entry.id]]
+      )
+      .filter((effect): effect is NonNullable<typeof effect> => effect !== null);
+  }
+
+  // Blend function and opacity are uniforms/defines on the effect, so no pass rebuild is needed
+  private applyEffectStack() {
+    this.settings.effectStack.entries.forEach((entry) => {
+      const effect = this.effects[entry.id];
+      if (!effect) return;
+      effect.blendMode.blendFunction = entry.blendFunction;
+      effect.blendMode.opacity.value = entry.id === 'lut' ? entry.opacity * this.settings.lut.intensity : entry.opacity;
+    });
+  }
+
+  /**
+   * Splits the enabled effects into passes. A new pass starts at every
+   * effect that needs the image as it stands at its place in the stack
+   * (see startsPass), so stack order holds whatever EffectPass merges.
+   */
+  private createEffectPasses() {
+    const groups: Effect[][] = [[]];
+    this.activeEffects().forEach((effect) => {
+      const group = groups[groups.length - 1];
+      if (group.length > 0 && startsPass(effect)) {
+        groups.push([effect]);
+      } else {
+        group.push(effect);
+      }
+    });
+    return groups.map((effects) => new SharedEffectPass(this.camera, ...effects));
+  }
+
+  // Swaps in passes for the current effect list; effects themselves are reused
+  private rebuildEffectPass() {
+    const previous = this.effectPasses;
+    const index = this.composer.passes.indexOf(previous[0]);
+
+    // Adding the new passes before removing the old ones keeps the composer's
+    // depth texture alive instead of reallocating it
+    this.effectPasses = this.createEffectPasses();
+    this.effectPasses.forEach((pass, offset) => this.composer.addPass(pass, index + offset));
+    previous.forEach((pass) => {
+      this.composer.removePass(pass);
+      pass.detachEffects();
+      pass.dispose();
+    });
+  }
+
+  private rebuildBlurPass() {
+    const { blur } = this.settings;
+
+    if (this.blurPass) {
+      this.composer.removePass(this.blurPass);
+      this.blurPass.dispose();
+      this.blurPass = null;
+    }
+
+    if (blur.enabled) {
+      this.blurPass = new GaussianBlurPass({
+        kernelSize: blur.kernelSize,
+        iterations: blur.iterations,
+        resolutionScale: Math.max(0.5, blur.intensity), // Prevent too low resolution
+      });
+      // Insert blur pass after render pass (index 1) but before effect pass
+      this.composer.addPass(this.blurPass, 1);
+    }
+  }
+
+  private createBloom() {
+    const options = {
+      kernelSize: KernelSize.LARGE,
+      mipmapBlur: this.settings.bloom.mipmapBlur,
+      height: this.quality.bloomHeight,
+    };
+    if (!this.settings.bloom.selective) {
+      return new BloomEffect(options);
+    }
+
+    // Only selected objects bloom; the rest of the scene still hides them by depth
+    const effect = new SelectiveBloomEffect(this.scene, this.camera, options);
+    effect.ignoreBackground = true;
+    return effect;
+  }
+
+  private disposeBloom() {
+    const effect = this.effects.bloom;
+    if (effect instanceof SelectiveBloomEffect) effect.selection.clear();
+    effect.dispose();
+  }
+
+  /**
+   * Adds the meshes named in the settings to the selective bloom selection,
+   * which puts them on its layer next to anything already there.
+   */
+  private selectBloomMeshes() {
+    const effect = this.effects.bloom;
+    this.lastBloomMeshSearch = performance.now();
+    if (!(effect instanceof SelectiveBloomEffect) || effect.selection.layer === LOGO_LAYER) {
+      this.pendingBloomMeshes = [];
+      return;
+    }
+
+    const names = new Set(this.settings.bloom.meshNames);
+    const meshes: THREE.Object3D[] = [];
+    this.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh && names.has(object.name)) meshes.push(object);
+    });
+    effect.selection.set(meshes);
+    this.pendingBloomMeshes = Array.from(names).filter((name) => !meshes.some((mesh) => mesh.name === name));
+  }
+
+  private createDepthOfField() {
+    return new DepthOfFieldEffect(this.camera, {
+      height: 480,
+    });
+  }
+
+  private createGodRays() {
+    // The effect needs a mesh to render as the light; it must be transparent and not write depth
+    this.godRaysSource = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, depthWrite: false })
+    );
+    this.godRaysSource.name = 'god-rays-emitter';
+    this.placeGodRaysSource();
+
+    return new GodRaysEffect(this.camera, this.godRaysSource, {
+      height: 480,
+      kernelSize: KernelSize.SMALL,
+      samples: this.settings.godRays.samples,
+      clampMax: 1.0,
+    });
+  }
+
+  /**
+   * Parents the emitter to the chosen light so it follows the animated model,
+   * or places it in the scene for the custom emitter. Until the light exists
+   * the emitter waits at the custom position.
+   */
+  private placeGodRaysSource() {
+    const source = this.godRaysSource;
+    if (!source) return;
+    const { godRays } = this.settings;
+
+    const lightName = GOD_RAYS_LIGHTS.find((light) => light.value === godRays.source)?.objectName ?? null;
+    const light = lightName ? this.scene.getObjectByName(lightName) : undefined;
+    this.pendingGodRaysLight = lightName && !light ? lightName : null;
+
+    if (light) {
+      light.add(source);
+      source.position.set(0, 0, 0);
+      // Keep the emitter size in world units despite the model's scale
+      const parentScale = light.getWorldScale(new THREE.Vector3()).x || 1;
+      source.scale.setScalar(godRays.emitterSize / parentScale);
+      if (light instanceof THREE.Light) {
+        source.material.color.copy(light.color);
+      }
+    } else {
+      this.scene.add(source);
+      source.position.set(godRays.emitterX, godRays.emitterY, godRays.emitterZ);
+      source.scale.setScalar(godRays.emitterSize);
+      source.material.color.set(0xffffff);
+    }
+  }
+
+  private disposeGodRays() {
+    this.effects.godRays?.dispose();
+    this.removeGodRaysSource();
+  }
+
+  private removeGodRaysSource() {
+    if (this.godRaysSource) {
+      // The emitter may hang off a light rather than the scene root
+      this.godRaysSource.removeFromParent();
+      this.godRaysSource.geometry.dispose();
+      this.godRaysSource.material.dispose();
+      this.godRaysSource = null;
+    }
+    this.pendingGodRaysLight = null;
+  }
+
+  private applyToneMapping() {
+    const { toneMapping } = this.settings;
+    const custom = toneMapping.mode === TONE_MAPPING_CUSTOM;
+    this.toneCurve.exposure = toneMapping.exposure;
+    this.toneCurve.customCurve = custom;
+    this.toneCurve.setCurve(toneMapping.curveContrast, toneMapping.curveShoulder, toneMapping.whitePoint, toneMapping.curveMidOut);
+
+    const effect = this.effects.toneMapping;
+    // Linear only clamps at unit exposure, leaving the custom curve's result as is
+    effect.mode = custom ? ToneMappingMode.LINEAR : toneMapping.mode;
+    // The typings only declare getters, but both are plain uniforms
+    effect.uniforms.get('whitePoint')!.value = toneMapping.whitePoint;
+    effect.uniforms.get('middleGrey')!.value = toneMapping.middleGrey;
+    effect.adaptiveLuminanceMaterial.adaptationRate = toneMapping.adaptation;
+  }
+
+  private applyBloom() {
+    const { bloom } = this.settings;
+    const effect = this.effects.bloom;
+    effect.intensity = bloom.intensity;
+    effect.luminanceMaterial.threshold = bloom.luminanceThreshold;
+    effect.luminanceMaterial.smoothing = bloom.luminanceSmoothing;
+    if (effect instanceof SelectiveBloomEffect) {
+      // Clearing a selection takes objects off its layer, so on the logo layer
+      // named meshes are left alone; the whole logo blooms there anyway
+      if (bloom.selectionLayer === LOGO_LAYER) effect.selection.clear();
+      effect.selection.layer = bloom.selectionLayer;
+      this.selectBloomMeshes();
+    }
+  }
+
+  private applyChromaticAberration() {
+    const { chromaticAberration } = this.settings;
+    const effect = this.effects.chromaticAberration;
+    effect.redOffset.fromArray(chromaticAberration.redOffset);
+    effect.greenOffset.fromArray(chromaticAberration.greenOffset);
+    effect.blueOffset.fromArray(chromaticAberration.blueOffset);
+    effect.blur = chromaticAberration.blur;
+    effect.radialModulation = chromaticAberration.radialModulation;
+    effect.modulationOffset = chromaticAberration.modulationOffset;
+    effect.center.fromArray(chromaticAberration.center);
+    effect.maskMode = chromaticAberration.maskMode;
+    effect.depthMaskRange.set(chromaticAberration.depthMaskStart, chromaticAberration.depthMaskEnd);
+    effect.maskCutoff = chromaticAberration.maskCutoff;
+    effect.maskLayer = chromaticAberration.maskLayer;
+  }
+
+  private applySSAO() {
+    const { ssao } = this.settings;
+    const effect = this.effects.ssao;
+    effect.intensity = ssao.intensity;
+    effect.radius = ssao.radius;
+    // Sample and ring counts are shader defines, so this recompiles the SSAO material only
+    effect.samples = Math.min(ssao.samples, this.quality.maxSsaoSamples);
+    effect.rings = ssao.rings;
+    effect.ssaoMaterial.bias = ssao.bias;
+    effect.ssaoMaterial.distanceThreshold = ssao.distanceThreshold;
+    effect.ssaoMaterial.distanceFalloff = ssao.distanceFalloff;
+  }
+
+  private applyDepthOfField() {
+    const { depthOfField } = this.settings;
+    const effect = this.effects.depthOfField;
+    if (!effect) return;
+    effect.cocMaterial.focusDistance = depthOfField.focusDistance;
+    effect.cocMaterial.focalLength = depthOfField.focalLength;
+    effect.bokehScale = depthOfField.bokehScale;
+  }
+
+  private applyLensDistortion() {
+    const { lensDistortion } = this.settings;
+    const effect = this.effects.lensDistortion;
+    effect.barrelDistortion = lensDistortion.barrelDistortion;
+    effect.chromaticAberration = lensDistortion.chromaticAberration;
+    effect.vignette = lensDistortion.vignette;
+    effect.center.fromArray(lensDistortion.center);
+  }
+
+  private applyVignette() {
+    const { vignette } = this.settings;
+    const effect = this.effects.vignette;
+    effect.technique = vignette.technique;
+    effect.darkness = vignette.darkness;
+    effect.offset = vignette.offset;
+    effect.color.set(vignette.color);
+    effect.aspect = vignette.aspect;
+    effect.center.fromArray(vignette.center);
+  }
+
+  private applyFilmGrain() {
+    const { filmGrain } = this.settings;
+    const effect = this.effects.filmGrain;
+    effect.intensity = filmGrain.intensity;
+    effect.size = filmGrain.size;
+    effect.animationRate = filmGrain.animationRate;
+    effect.monochrome = filmGrain.monochrome;
+    effect.shadows = filmGrain.shadows;
+    effect.highlights = filmGrain.highlights;
+  }
+
+  private applyColorGrade() {
+    const { colorGrade } = this.settings;
+    const effect = this.effects.colorGrade;
+    effect.temperature = colorGrade.temperature;
+    effect.tint = colorGrade.tint;
+    effect.contrast = colorGrade.contrast;
+    effect.saturation = colorGrade.saturation;
+    effect.vibrance = colorGrade.vibrance;
+    effect.hue = colorGrade.hue;
+    effect.setWheel('lift', colorGrade.lift, colorGrade.liftLuminance);
+    effect.setWheel('gamma', colorGrade.gamma, colorGrade.gammaLuminance);
+    effect.setWheel('gain', colorGrade.gain, colorGrade.gainLuminance);
+  }
+
+  private applyGodRays() {
+    const { godRays } = this.settings;
+    const effect = this.effects.godRays;
+    if (!effect) return;
+    effect.godRaysMaterial.density = godRays.density;
+    effect.godRaysMaterial.decay = godRays.decay;
+    effect.godRaysMaterial.weight = godRays.weight;
+    effect.godRaysMaterial.exposure = godRays.exposure;
+    effect.godRaysMaterial.samples = godRays.samples;
+  }
+
+  private applyLut() {
+    const effect = this.effects.lut;
+    if (!effect) return;
+    effect.tetrahedralInterpolation = this.settings.lut.tetrahedral;
+  }
+}
+
+const BLOOM_MESH_SEARCH_INTERVAL = 1000; // ms
+
+// Whether two settings put the same effects in the pass in the same order
+const sameEffectList = (a: PostProcessingSettings, b: PostProcessingSettings) => {
+  const enabledIds = (settings: PostProcessingSettings) =>
+    settings.effectStack.entries.filter((entry) => entry.enabled).map((entry) => entry.id).join(',');
+  return enabledIds(a) === enabledIds(b);
+};
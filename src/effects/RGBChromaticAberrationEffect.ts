@@ -0,0 +1,267 @@
+import { BlendFunction, Effect, EffectAttribute } from 'postprocessing';
+import * as THREE from 'three';
+import { ABERRATION_MASK_DEPTH, ABERRATION_MASK_SELECTION, LOGO_LAYER } from '../utils/postProcessingSchema';
+
+// The selection mask only needs to be roughly as sharp as the image
+const MASK_RESOLUTION_SCALE = 0.5;
+
+// Custom RGB Chromatic Aberration Effect. In radial mode each channel
+// offset is measured outward (x) and around (y) from the center, and grows
+// with distance from it like the lateral aberration of a real lens.
+//
+// A mask keeps chosen areas (normally the logo) sharp: either a depth range,
+// or the objects on one three.js layer, rendered white into a mask texture
+// before the pass runs.
+export class RGBChromaticAberrationEffect extends Effect {
+  // Objects on this layer are rendered into the selection mask
+  maskLayer = LOGO_LAYER;
+
+  private readonly scene: THREE.Scene;
+  private readonly camera: THREE.Camera;
+  private readonly maskTarget: THREE.WebGLRenderTarget;
+  private readonly maskMaterial: THREE.MeshBasicMaterial;
+  private readonly clearColor = new THREE.Color();
+
+  constructor(scene: THREE.Scene, camera: THREE.Camera) {
+    const fragmentShader = `
+      uniform vec2 redOffset;
+      uniform vec2 greenOffset;
+      uniform vec2 blueOffset;
+      uniform float blur;
+      uniform vec2 center;
+      uniform float modulationOffset;
+      uniform vec2 depthMaskRange;
+      uniform float maskCutoff;
+      uniform sampler2D selectionMask;
+
+      // 0 where the image must stay sharp, 1 where the aberration applies in full
+      float aberrationMask(const in vec2 uv, const in float depth) {
+        #if ABERRATION_MASK == ${ABERRATION_MASK_DEPTH}
+          return smoothstep(depthMaskRange.x, max(depthMaskRange.y, depthMaskRange.x + 1e-5), depth);
+        #elif ABERRATION_MASK == ${ABERRATION_MASK_SELECTION}
+          return 1.0 - texture2D(selectionMask, uv).r;
+        #else
+          return 1.0;
+        #endif
+      }
+
+      vec2 channelOffset(const in vec2 offset, const in vec2 uv) {
+        #ifdef RADIAL_MODULATION
+          // Aspect-corrected so the fringe is circular; 1.0 is a corner of a centred frame
+          vec2 delta = (uv - center) * vec2(aspect, 1.0);
+          float dist = length(delta) / length(vec2(aspect, 1.0) * 0.5);
+          float falloff = clamp((dist - modulationOffset) / max(1.0 - modulationOffset, 1e-3), 0.0, 1.0);
+          vec2 outward = dist > 0.0 ? normalize(delta) : vec2(1.0, 0.0);
+          vec2 around = vec2(-outward.y, outward.x);
+          return (outward * offset.x + around * offset.y) / vec2(aspect, 1.0) * falloff;
+        #else
+          return offset;
+        #endif
+      }
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, const in float depth, out vec4 outputColor) {
+        // With the default depth range, close objects (the SAO logo) stay
+        // sharp while the background fringes
+        float depthFactor = aberrationMask(uv, depth);
+        
+        if (depthFactor < maskCutoff) {
+          // Masked out - keep original
+          outputColor = inputColor;
+          return;
+        }
+        
+        // Apply chromatic aberration based on the mask
+        vec2 scaledRedOffset = channelOffset(redOffset, uv) * depthFactor;
+        vec2 scaledGreenOffset = channelOffset(greenOffset, uv) * depthFactor;
+        vec2 scaledBlueOffset = channelOffset(blueOffset, uv) * depthFactor;
+        
+        // Sample each color channel with its own scaled offset
+        float r = texture2D(inputBuffer, uv + scaledRedOffset).r;
+        float g = texture2D(inputBuffer, uv + scaledGreenOffset).g;
+        float b = texture2D(inputBuffer, uv + scaledBlueOffset).b;
+        
+        // Combine the separated channels
+        vec3 color = vec3(r, g, b);
+        
+        // Apply blur effect with proper sampling
+        if (blur > 0.0) {
+          vec2 texelSize = 1.0 / vec2(textureSize(inputBuffer, 0));
+          vec3 blurred = vec3(0.0);
+          float blurRadius = blur * 20.0; // Increase multiplier for more noticeable effect
+          
+          // 3x3 blur kernel for performance
+          for (int x = -1; x <= 1; x++) {
+            for (int y = -1; y <= 1; y++) {
+              vec2 offset = vec2(float(x), float(y)) * texelSize * blurRadius;
+              
+              float rBlur = texture2D(inputBuffer, uv + scaledRedOffset + offset).r;
+              float gBlur = texture2D(inputBuffer, uv + scaledGreenOffset + offset).g;
+              float bBlur = texture2D(inputBuffer, uv + scaledBlueOffset + offset).b;
+              
+              blurred += vec3(rBlur, gBlur, bBlur);
+            }
+          }
+          blurred /= 9.0; // Average of 3x3 samples
+          
+          // Mix between sharp chromatic aberration and blurred version
+          color = mix(color, blurred, blur * 100.0); // Strong blur mixing
+        }
+        
+        // Mix between original and chromatic aberration based on the mask
+        color = mix(inputColor.rgb, color, depthFactor);
+        
+        outputColor = vec4(color, inputColor.a);
+      }
+    `;
+
+    const maskTarget = new THREE.WebGLRenderTarget(1, 1, { depthBuffer: true });
+    maskTarget.texture.name = "RGBChromaticAberration.Mask";
+
+    super("RGBChromaticAberration", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      // mainImage reads depth, so the pass must always provide it, and samples
+      // inputBuffer at other pixels; the pipeline starts a new pass here for both
+      attributes: EffectAttribute.CONVOLUTION | EffectAttribute.DEPTH,
+      defines: new Map([["ABERRATION_MASK", String(ABERRATION_MASK_DEPTH)]]),
+      uniforms: new Map<string, THREE.Uniform>([
+        ["redOffset", new THREE.Uniform(new THREE.Vector2(0.01, 0.0))],
+        ["greenOffset", new THREE.Uniform(new THREE.Vector2(0.0, 0.0))],
+        ["blueOffset", new THREE.Uniform(new THREE.Vector2(-0.01, 0.0))],
+        ["blur", new THREE.Uniform(0.0)],
+        ["center", new THREE.Uniform(new THREE.Vector2(0.5, 0.5))],
+        ["modulationOffset", new THREE.Uniform(0.0)],
+        ["depthMaskRange", new THREE.Uniform(new THREE.Vector2(0.98, 0.995))],
+        ["maskCutoff", new THREE.Uniform(0.1)],
+        ["selectionMask", new THREE.Uniform(maskTarget.texture)]
+      ])
+    });
+
+    this.scene = scene;
+    this.camera = camera;
+    this.maskTarget = maskTarget;
+    this.maskMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, fog: false });
+  }
+
+  get maskMode(): number {
+    return Number(this.defines.get("ABERRATION_MASK"));
+  }
+
+  // A shader define, so changing it recompiles the pass
+  set maskMode(value: number) {
+    if (this.maskMode !== value) {
+      this.defines.set("ABERRATION_MASK", String(value));
+      this.setChanged();
+    }
+  }
+
+  // x: depth where the effect starts fading in, y: depth where it's at full strength
+  get depthMaskRange(): THREE.Vector2 {
+    return this.uniforms.get("depthMaskRange")!.value;
+  }
+
+  get maskCutoff() {
+    return this.uniforms.get("maskCutoff")!.value;
+  }
+
+  set maskCutoff(value: number) {
+    this.uniforms.get("maskCutoff")!.value = value;
+  }
+
+  // Renders the selection layer white on black before the pass samples it
+  update(renderer: THREE.WebGLRenderer) {
+    if (this.maskMode !== ABERRATION_MASK_SELECTION) return;
+
+    const { scene, camera } = this;
+    const layerMask = camera.layers.mask;
+    const background = scene.background;
+    const overrideMaterial = scene.overrideMaterial;
+    const renderTarget = renderer.getRenderTarget();
+    const clearAlpha = renderer.getClearAlpha();
+    const shadowAutoUpdate = renderer.shadowMap.autoUpdate;
+    renderer.getClearColor(this.clearColor);
+
+    camera.layers.set(this.maskLayer);
+    scene.background = null;
+    scene.overrideMaterial = this.maskMaterial;
+    // The shadow maps are already up to date for this frame
+    renderer.shadowMap.autoUpdate = false;
+    renderer.setRenderTarget(this.maskTarget);
+    renderer.setClearColor(0x000000, 1);
+    renderer.clear();
+    renderer.render(scene, camera);
+
+    renderer.setRenderTarget(renderTarget);
+    renderer.setClearColor(this.clearColor, clearAlpha);
+    renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+    scene.overrideMaterial = overrideMaterial;
+    scene.background = background;
+    camera.layers.mask = layerMask;
+  }
+
+  setSize(width: number, height: number) {
+    this.maskTarget.setSize(
+      Math.max(1, Math.round(width * MASK_RESOLUTION_SCALE)),
+      Math.max(1, Math.round(height * MASK_RESOLUTION_SCALE))
+    );
+  }
+
+  get radialModulation() {
+    return this.defines.has("RADIAL_MODULATION");
+  }
+
+  // A shader define, so changing it recompiles the pass
+  set radialModulation(value: boolean) {
+    if (this.radialModulation !== value) {
+      if (value) {
+        this.defines.set("RADIAL_MODULATION", "1");
+      } else {
+        this.defines.delete("RADIAL_MODULATION");
+      }
+      this.setChanged();
+    }
+  }
+
+  get center(): THREE.Vector2 {
+    return this.uniforms.get("center")!.value;
+  }
+
+  get modulationOffset() {
+    return this.uniforms.get("modulationOffset")!.value;
+  }
+
+  set modulationOffset(value: number) {
+    this.uniforms.get("modulationOffset")!.value = value;
+  }
+
+  get redOffset() {
+    return this.uniforms.get("redOffset")!.value;
+  }
+
+  set redOffset(value: THREE.Vector2) {
+    this.uniforms.get("redOffset")!.value = value;
+  }
+
+  get greenOffset() {
+    return this.uniforms.get("greenOffset")!.value;
+  }
+
+  set greenOffset(value: THREE.Vector2) {
+    this.uniforms.get("greenOffset")!.value = value;
+  }
+
+  get blueOffset() {
+    return this.uniforms.get("blueOffset")!.value;
+  }
+
+  set blueOffset(value: THREE.Vector2) {
+    this.uniforms.get("blueOffset")!.value = value;
+  }
+
+  get blur() {
+    return this.uniforms.get("blur")!.value;
+  }
+
+  set blur(value: number) {
+    this.uniforms.get("blur")!.value = value;
+  }
+}
@@ -0,0 +1,84 @@
+import { BlendFunction, Effect } from 'postprocessing';
+import * as THREE from 'three';
+
+// Scene value the custom curve maps to `midOut`
+const MID_IN = 0.18;
+
+// Exposure ahead of tone mapping, and the adjustable custom operator. It runs
+// right before postprocessing's ToneMappingEffect, which just clamps when the
+// custom curve has already mapped the image into range.
+export class ToneCurveEffect extends Effect {
+  constructor() {
+    const fragmentShader = `
+      uniform float exposure;
+      // Contrast, shoulder and the two solved terms of the curve
+      uniform vec4 curve;
+
+      vec3 customCurve(vec3 x) {
+        vec3 toe = pow(x, vec3(curve.x));
+        return toe / (pow(x, vec3(curve.x * curve.y)) * curve.z + curve.w);
+      }
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec3 color = max(inputColor.rgb, 0.0) * exposure;
+
+        #ifdef CUSTOM_CURVE
+          color = clamp(customCurve(color), 0.0, 1.0);
+        #endif
+
+        outputColor = vec4(color, inputColor.a);
+      }
+    `;
+
+    super("ToneCurve", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      uniforms: new Map<string, THREE.Uniform>([
+        ["exposure", new THREE.Uniform(1.0)],
+        ["curve", new THREE.Uniform(new THREE.Vector4(1.0, 1.0, 1.0, 0.0))]
+      ])
+    });
+  }
+
+  /**
+   * Shapes the custom curve (Lottes, "Advanced Techniques and Optimization of
+   * HDR Color Pipelines"): scene values up to `whitePoint` are compressed into
+   * range with middle grey landing on `midOut`.
+   */
+  setCurve(contrast: number, shoulder: number, whitePoint: number, midOut: number) {
+    const ad = contrast * shoulder;
+    const midInA = Math.pow(MID_IN, contrast);
+    const midInAd = Math.pow(MID_IN, ad);
+    const whiteA = Math.pow(whitePoint, contrast);
+    const whiteAd = Math.pow(whitePoint, ad);
+    const denominator = (whiteAd - midInAd) * midOut;
+
+    const b = (-midInA + whiteA * midOut) / denominator;
+    const c = (whiteAd * midInA - whiteA * midInAd * midOut) / denominator;
+    this.uniforms.get("curve")!.value.set(contrast, shoulder, b, c);
+  }
+
+  // Linear multiplier on the scene before any operator
+  get exposure() {
+    return this.uniforms.get("exposure")!.value;
+  }
+
+  set exposure(value: number) {
+    this.uniforms.get("exposure")!.value = value;
+  }
+
+  get customCurve() {
+    return this.defines.has("CUSTOM_CURVE");
+  }
+
+  // A shader define, so changing it recompiles the pass
+  set customCurve(value: boolean) {
+    if (this.customCurve !== value) {
+      if (value) {
+        this.defines.set("CUSTOM_CURVE", "1");
+      } else {
+        this.defines.delete("CUSTOM_CURVE");
+      }
+      this.setChanged();
+    }
+  }
+}
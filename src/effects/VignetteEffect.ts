@@ -0,0 +1,90 @@
+import { BlendFunction, Effect, VignetteTechnique } from 'postprocessing';
+import * as THREE from 'three';
+
+// Vignette with a tint colour and a movable, stretchable ellipse. With a
+// black tint, a centred ellipse and an aspect of 1 it matches the stock
+// postprocessing VignetteEffect.
+export class VignetteEffect extends Effect {
+  constructor() {
+    const fragmentShader = `
+      uniform float darkness;
+      uniform float offset;
+      uniform vec3 color;
+      uniform vec2 center;
+      uniform float aspect;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        // Aspect > 1 stretches the ellipse horizontally, < 1 vertically
+        vec2 delta = (uv - center) / vec2(aspect, 1.0);
+        vec3 result = inputColor.rgb;
+
+        #if VIGNETTE_TECHNIQUE == 0
+          float falloff = smoothstep(0.8, offset * 0.799, length(delta) * (darkness + offset));
+          result = mix(color, result, falloff);
+        #else
+          vec2 coord = delta * vec2(offset);
+          // The tint shifts the shade the edges fade towards
+          result = mix(result, vec3(1.0 - darkness) + color * darkness, dot(coord, coord));
+        #endif
+
+        outputColor = vec4(result, inputColor.a);
+      }
+    `;
+
+    super("Vignette", fragmentShader, {
+      blendFunction: BlendFunction.NORMAL,
+      defines: new Map([["VIGNETTE_TECHNIQUE", String(VignetteTechnique.DEFAULT)]]),
+      uniforms: new Map<string, THREE.Uniform>([
+        ["darkness", new THREE.Uniform(0.5)],
+        ["offset", new THREE.Uniform(0.5)],
+        ["color", new THREE.Uniform(new THREE.Color(0x000000))],
+        ["center", new THREE.Uniform(new THREE.Vector2(0.5, 0.5))],
+        ["aspect", new THREE.Uniform(1.0)]
+      ])
+    });
+  }
+
+  get technique(): VignetteTechnique {
+    return Number(this.defines.get("VIGNETTE_TECHNIQUE"));
+  }
+
+  // The technique is a shader define, so changing it recompiles the pass
+  set technique(value: VignetteTechnique) {
+    if (this.technique !== value) {
+      this.defines.set("VIGNETTE_TECHNIQUE", String(value));
+      this.setChanged();
+    }
+  }
+
+  get darkness() {
+    return this.uniforms.get("darkness")!.value;
+  }
+
+  set darkness(value: number) {
+    this.uniforms.get("darkness")!.value = value;
+  }
+
+  get offset() {
+    return this.uniforms.get("offset")!.value;
+  }
+
+  set offset(value: number) {
+    this.uniforms.get("offset")!.value = value;
+  }
+
+  get color(): THREE.Color {
+    return this.uniforms.get("color")!.value;
+  }
+
+  get center(): THREE.Vector2 {
+    return this.uniforms.get("center")!.value;
+  }
+
+  get aspect() {
+    return this.uniforms.get("aspect")!.value;
+  }
+
+  set aspect(value: number) {
+    this.uniforms.get("aspect")!.value = value;
+  }
+}
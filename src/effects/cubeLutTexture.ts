@@ -0,0 +1,45 @@
+import { LookupTexture } from 'postprocessing';
+import type { CubeLut } from '../utils/cubeLut';
+
+// 1D tables are baked into a 3D texture of this side length
+const BAKED_1D_SIZE = 33;
+
+// Linear interpolation into one channel of a 1D table, `position` in [0, 1]
+const sample1D = (table: Float32Array, size: number, channel: number, position: number) => {
+  const scaled = Math.min(Math.max(position, 0), 1) * (size - 1);
+  const lower = Math.floor(scaled);
+  const upper = Math.min(lower + 1, size - 1);
+  const t = scaled - lower;
+  return table[lower * 3 + channel] * (1 - t) + table[upper * 3 + channel] * t;
+};
+
+/**
+ * Builds the 3D texture LUT3DEffect samples from a parsed `.cube` file.
+ * A 1D LUT maps each channel independently, so it's evaluated at every
+ * point of a small RGB lattice.
+ */
+export const createLookupTexture = (lut: CubeLut): LookupTexture => {
+  const size = lut.kind === '3D' ? lut.size : BAKED_1D_SIZE;
+  const data = new Float32Array(size ** 3 * 4);
+
+  for (let i = 0; i < size ** 3; i++) {
+    if (lut.kind === '3D') {
+      data.set(lut.table.subarray(i * 3, i * 3 + 3), i * 4);
+    } else {
+      // Red changes fastest, then green, then blue
+      const r = (i % size) / (size - 1);
+      const g = (Math.floor(i / size) % size) / (size - 1);
+      const b = Math.floor(i / (size * size)) / (size - 1);
+      data[i * 4] = sample1D(lut.table, lut.size, 0, r);
+      data[i * 4 + 1] = sample1D(lut.table, lut.size, 1, g);
+      data[i * 4 + 2] = sample1D(lut.table, lut.size, 2, b);
+    }
+    data[i * 4 + 3] = 1;
+  }
+
+  const texture = new LookupTexture(data, size);
+  texture.domainMin.fromArray(lut.domainMin);
+  texture.domainMax.fromArray(lut.domainMax);
+  if (lut.title) texture.name = lut.title;
+  return texture;
+};
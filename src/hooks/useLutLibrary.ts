@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { LookupTexture } from 'postprocessing'
+import { listLuts, getLut, deleteLut, subscribeToLuts } from '../utils/lutLibrary'
+import type { StoredLut } from '../utils/lutLibrary'
+import { parseCubeLut } from '../utils/cubeLut'
+import { createLookupTexture } from '../effects/cubeLutTexture'
+
+interface UseLutLibraryResult {
+  luts: StoredLut[]
+  loading: boolean
+  error: string | null
+  remove: (id: string) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const useLutLibrary = (): UseLutLibraryResult => {
+  const [luts, setLuts] = useState<StoredLut[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setLuts(await listLuts())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading LUTs:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load LUTs')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return subscribeToLuts(refresh)
+  }, [refresh])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteLut(id)
+    } catch (err) {
+      console.error('LUT library error:', err)
+      setError(err instanceof Error ? err.message : 'LUT library error')
+    }
+  }, [])
+
+  return { luts, loading, error, remove, refresh }
+}
+
+/**
+ * Loads a stored LUT as a texture for the grading effect. Returns null for
+ * an empty id, a LUT that isn't in the library, or while it's loading.
+ * The texture is disposed when it's replaced or the caller unmounts.
+ */
+export const useLookupTexture = (lutId: string): LookupTexture | null => {
+  const [texture, setTexture] = useState<LookupTexture | null>(null)
+  // Bumped when the library changes, so a re-imported or deleted LUT reloads
+  const [revision, setRevision] = useState(0)
+
+  useEffect(() => subscribeToLuts(() => setRevision((value) => value + 1)), [])
+
+  useEffect(() => {
+    if (!lutId) {
+      setTexture(null)
+      return
+    }
+
+    let cancelled = false
+    getLut(lutId)
+      .then((lut) => {
+        if (cancelled) return
+        setTexture(lut ? createLookupTexture(parseCubeLut(lut.source)) : null)
+      })
+      .catch((err) => {
+        console.error('Error loading LUT:', err)
+        if (!cancelled) setTexture(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [lutId, revision])
+
+  useEffect(() => () => texture?.dispose(), [texture])
+
+  return texture
+}
@@ -0,0 +1,74 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { SettingsIssue } from '../utils/postProcessingSchema'
+
+export type NotificationKind = 'success' | 'info' | 'warning' | 'error'
+
+export interface NotificationAction {
+  label: string
+  onClick: () => void
+  primary?: boolean
+}
+
+export interface AppNotification {
+  id: number
+  kind: NotificationKind
+  title: string
+  message?: string
+  issues?: SettingsIssue[]
+  actions?: NotificationAction[]
+}
+
+type NewNotification = Omit<AppNotification, 'id'> & {
+  // Milliseconds before the notification closes itself; 0 keeps it until dismissed
+  timeout?: number
+}
+
+interface UseNotificationsResult {
+  notifications: AppNotification[]
+  notify: (notification: NewNotification) => number
+  dismiss: (id: number) => void
+}
+
+// Success and info messages fade on their own; problems wait for the user
+const DEFAULT_TIMEOUTS: Record<NotificationKind, number> = {
+  success: 4000,
+  info: 4000,
+  warning: 0,
+  error: 0,
+}
+
+export const useNotifications = (): UseNotificationsResult => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const nextId = useRef(1)
+  const timers = useRef(new Map<number, number>())
+
+  const dismiss = useCallback((id: number) => {
+    const timer = timers.current.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      timers.current.delete(id)
+    }
+    setNotifications((current) => current.filter((notification) => notification.id !== id))
+  }, [])
+
+  const notify = useCallback(({ timeout, ...notification }: NewNotification) => {
+    const id = nextId.current++
+    setNotifications((current) => [...current, { ...notification, id }])
+
+    const delay = timeout ?? DEFAULT_TIMEOUTS[notification.kind]
+    if (delay > 0) {
+      timers.current.set(id, window.setTimeout(() => dismiss(id), delay))
+    }
+    return id
+  }, [dismiss])
+
+  useEffect(() => {
+    const activeTimers = timers.current
+    return () => {
+      activeTimers.forEach((timer) => clearTimeout(timer))
+      activeTimers.clear()
+    }
+  }, [])
+
+  return { notifications, notify, dismiss }
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { RefObject } from 'react'
+
+// No input for this long counts as idle
+export const IDLE_TIMEOUT = 3000
+
+const INPUT_EVENTS = ['mousemove', 'pointerdown', 'keydown', 'wheel', 'touchstart'] as const
+
+// 'active' renders every frame, 'idle' at a low rate, 'paused' not at all
+export type PowerState = 'active' | 'idle' | 'paused'
+
+interface UseIdleResult {
+  idle: boolean
+  // Counts as input, for activity that doesn't come from this window's events
+  markActive: () => void
+}
+
+/** True once there's been no mouse, touch or keyboard input for `timeout` ms */
+export const useIdle = (timeout = IDLE_TIMEOUT): UseIdleResult => {
+  const [idle, setIdle] = useState(false)
+  const idleTimeout = useRef<number | null>(null)
+
+  const markActive = useCallback(() => {
+    setIdle(false)
+    if (idleTimeout.current) {
+      clearTimeout(idleTimeout.current)
+    }
+    idleTimeout.current = window.setTimeout(() => setIdle(true), timeout)
+  }, [timeout])
+
+  useEffect(() => {
+    INPUT_EVENTS.forEach((type) => window.addEventListener(type, markActive, { passive: true }))
+    markActive()
+
+    return () => {
+      INPUT_EVENTS.forEach((type) => window.removeEventListener(type, markActive))
+      if (idleTimeout.current) {
+        clearTimeout(idleTimeout.current)
+      }
+    }
+  }, [markActive])
+
+  return { idle, markActive }
+}
+
+interface UsePowerSavingResult {
+  state: PowerState
+  markActive: () => void
+}
+
+/**
+ * Decides how often the canvas in `targetRef` needs to render: every frame
+ * while someone's interacting, at a low rate once they've gone idle, and not
+ * at all while the tab is hidden or the canvas is scrolled out of view.
+ */
+export const usePowerSaving = (targetRef: RefObject<Element | null>): UsePowerSavingResult => {
+  const { idle, markActive } = useIdle()
+  const [hidden, setHidden] = useState(() => document.hidden)
+  const [onScreen, setOnScreen] = useState(true)
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setHidden(document.hidden)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
+  useEffect(() => {
+    const target = targetRef.current
+    if (!target || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting))
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [targetRef])
+
+  const state: PowerState = hidden || !onScreen ? 'paused' : idle ? 'idle' : 'active'
+  return { state, markActive }
+}
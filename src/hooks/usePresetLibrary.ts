@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  listPresets,
+  savePreset,
+  renamePreset,
+  duplicatePreset,
+  deletePreset,
+  subscribeToPresets,
+} from '../utils/presetLibrary'
+import type { SettingsPreset, NewPreset } from '../utils/presetLibrary'
+
+interface UsePresetLibraryResult {
+  presets: SettingsPreset[]
+  loading: boolean
+  error: string | null
+  save: (preset: NewPreset) => Promise<SettingsPreset | null>
+  rename: (id: string, name: string) => Promise<void>
+  duplicate: (id: string) => Promise<void>
+  remove: (id: string) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const usePresetLibrary = (): UsePresetLibraryResult => {
+  const [presets, setPresets] = useState<SettingsPreset[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setPresets(await listPresets())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading presets:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load presets')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return subscribeToPresets(refresh)
+  }, [refresh])
+
+  // Runs a library mutation, then re-reads the list so every view stays in sync
+  const mutate = useCallback(async <T>(operation: () => Promise<T>): Promise<T | null> => {
+    try {
+      const result = await operation()
+      await refresh()
+      return result
+    } catch (err) {
+      console.error('Preset library error:', err)
+      setError(err instanceof Error ? err.message : 'Preset library error')
+      return null
+    }
+  }, [refresh])
+
+  const save = useCallback((preset: NewPreset) => mutate(() => savePreset(preset)), [mutate])
+
+  const rename = useCallback(async (id: string, name: string) => {
+    await mutate(() => renamePreset(id, name))
+  }, [mutate])
+
+  const duplicate = useCallback(async (id: string) => {
+    await mutate(() => duplicatePreset(id))
+  }, [mutate])
+
+  const remove = useCallback(async (id: string) => {
+    await mutate(() => deletePreset(id))
+  }, [mutate])
+
+  return { presets, loading, error, save, rename, duplicate, remove, refresh }
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { QualityGovernor, QUALITY_OVERRIDES, QUALITY_TIERS, resolveQualityTier } from '../utils/qualityGovernor'
+import type { QualityOverride, QualitySample, QualityTier } from '../utils/qualityGovernor'
+
+const PREFERENCES_STORAGE_KEY = 'saohouse-quality-preferences'
+
+export interface QualityPreferences {
+  // Let measured frame times pick the tier; otherwise `manualTier` is used
+  adaptive: boolean
+  manualTier: number
+  // Effects held at full quality whatever the tier
+  pinned: QualityOverride[]
+}
+
+interface UseQualityGovernorResult {
+  // The tier in effect, with pinned effects lifted back to full quality
+  quality: QualityTier
+  tierIndex: number
+  // The last completed measurement window, null until the first one
+  sample: QualitySample | null
+  preferences: QualityPreferences
+  setAdaptive: (adaptive: boolean) => void
+  setManualTier: (tier: number) => void
+  togglePinned: (key: QualityOverride) => void
+  // Feed every rendered frame in; call from inside the Canvas
+  recordFrame: (frameTime: number, now: number) => void
+}
+
+const defaultPreferences: QualityPreferences = { adaptive: true, manualTier: 0, pinned: [] }
+
+const loadPreferences = (): QualityPreferences => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? 'null')
+    if (!saved || typeof saved !== 'object') return defaultPreferences
+
+    const validKeys: string[] = QUALITY_OVERRIDES.map((override) => override.key)
+    return {
+      adaptive: typeof saved.adaptive === 'boolean' ? saved.adaptive : defaultPreferences.adaptive,
+      manualTier: Number.isInteger(saved.manualTier)
+        ? Math.min(Math.max(saved.manualTier, 0), QUALITY_TIERS.length - 1)
+        : defaultPreferences.manualTier,
+      pinned: Array.isArray(saved.pinned) ? saved.pinned.filter((key: unknown) => validKeys.includes(key as string)) : [],
+    }
+  } catch (error) {
+    console.warn('Failed to load quality preferences from localStorage:', error)
+    return defaultPreferences
+  }
+}
+
+const savePreferences = (preferences: QualityPreferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences))
+  } catch (error) {
+    console.warn('Failed to save quality preferences to localStorage:', error)
+  }
+}
+
+/**
+ * Picks the rendering quality tier. In adaptive mode a QualityGovernor walks
+ * the tiers from measured frame times; otherwise the manually chosen tier
+ * holds. Either way pinned effects stay at full quality, so one effect can be
+ * judged on its own while the rest adapt. Preferences persist per browser.
+ * While `paused` frames are ignored and the current tier holds.
+ */
+export const useQualityGovernor = (paused = false): UseQualityGovernorResult => {
+  const [preferences, setPreferences] = useState(loadPreferences)
+  const [adaptiveTier, setAdaptiveTier] = useState(0)
+  const [sample, setSample] = useState<QualitySample | null>(null)
+  const governorRef = useRef<QualityGovernor | null>(null)
+  if (!governorRef.current) governorRef.current = new QualityGovernor()
+
+  const adaptiveRef = useRef(preferences.adaptive)
+  adaptiveRef.current = preferences.adaptive
+  const pausedRef = useRef(paused)
+  pausedRef.current = paused
+
+  // Throttled frames say nothing about what the device can sustain
+  useEffect(() => {
+    if (paused) governorRef.current!.pause()
+  }, [paused])
+
+  const updatePreferences = useCallback((update: (current: QualityPreferences) => QualityPreferences) => {
+    setPreferences((current) => {
+      const next = update(current)
+      savePreferences(next)
+      return next
+    })
+  }, [])
+
+  const setAdaptive = useCallback((adaptive: boolean) => {
+    if (adaptive) {
+      // Start from full quality rather than wherever the last adaptive run ended
+      governorRef.current!.reset()
+      setAdaptiveTier(0)
+    }
+    updatePreferences((current) => ({ ...current, adaptive }))
+  }, [updatePreferences])
+
+  const setManualTier = useCallback((manualTier: number) => {
+    updatePreferences((current) => ({ ...current, manualTier }))
+  }, [updatePreferences])
+
+  const togglePinned = useCallback((key: QualityOverride) => {
+    updatePreferences((current) => ({
+      ...current,
+      pinned: current.pinned.includes(key) ? current.pinned.filter((pinned) => pinned !== key) : [...current.pinned, key],
+    }))
+  }, [updatePreferences])
+
+  const recordFrame = useCallback((frameTime: number, now: number) => {
+    if (pausedRef.current) return
+    const result = governorRef.current!.sample(frameTime, now)
+    if (!result) return
+
+    setSample(result)
+    if (adaptiveRef.current) setAdaptiveTier(result.tier)
+  }, [])
+
+  const tierIndex = preferences.adaptive ? adaptiveTier : preferences.manualTier
+  const quality = useMemo(() => resolveQualityTier(tierIndex, preferences.pinned), [tierIndex, preferences.pinned])
+
+  return { quality, tierIndex, sample, preferences, setAdaptive, setManualTier, togglePinned, recordFrame }
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { PostProcessingSettings } from '../utils/postProcessingSchema'
+import {
+  REMOTE_CHANNEL_NAME,
+  REMOTE_HEARTBEAT_MS,
+  REMOTE_TIMEOUT_MS,
+  readRemoteHostId,
+} from '../utils/remoteControl'
+import type { HeroMessage, RemoteChannelMessage, RemoteHeroState, RemoteMessage } from '../utils/remoteControl'
+
+interface UseRemoteHostOptions {
+  state: RemoteHeroState
+  onSettingsChange: (settings: PostProcessingSettings) => void
+  onSettingsLoad: (settings: PostProcessingSettings, source?: string, presetName?: string) => void
+}
+
+interface UseRemoteHostResult {
+  // Pass to openRemoteWindow so the remote pairs with this page
+  hostId: string
+  remoteConnected: boolean
+  // Called from the render loop; only reaches the channel while a remote is listening
+  reportFps: (fps: number) => void
+}
+
+const canUseChannel = () => typeof BroadcastChannel !== 'undefined'
+
+// Sent with every message, so a remote only answers to the page that opened it
+const hostId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Hero page side of the remote control: applies edits from a pop-out
+ * window and keeps it informed of the current look and frame rate.
+ */
+export const useRemoteHost = ({ state, onSettingsChange, onSettingsLoad }: UseRemoteHostOptions): UseRemoteHostResult => {
+  const [remoteConnected, setRemoteConnected] = useState(false)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const lastHelloRef = useRef(0)
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const handlersRef = useRef({ onSettingsChange, onSettingsLoad })
+  handlersRef.current = { onSettingsChange, onSettingsLoad }
+
+  const post = useCallback((message: HeroMessage) => {
+    channelRef.current?.postMessage(message)
+  }, [])
+
+  useEffect(() => {
+    if (!canUseChannel()) return
+
+    const channel = new BroadcastChannel(REMOTE_CHANNEL_NAME)
+    channelRef.current = channel
+
+    channel.onmessage = (event: MessageEvent<RemoteChannelMessage>) => {
+      const message = event.data as RemoteMessage
+      if (message?.hostId !== hostId) return
+      switch (message.type) {
+        case 'remote-hello':
+          // Answer every hello so a freshly opened remote gets the state right away
+          lastHelloRef.current = Date.now()
+          setRemoteConnected(true)
+          post({ type: 'hero-state', hostId, state: stateRef.current })
+          break
+        case 'remote-goodbye':
+          lastHelloRef.current = 0
+          setRemoteConnected(false)
+          break
+        case 'remote-settings-change':
+          handlersRef.current.onSettingsChange(message.settings)
+          break
+        case 'remote-settings-load':
+          handlersRef.current.onSettingsLoad(message.settings, message.source, message.presetName)
+          break
+      }
+    }
+
+    // A remote that was closed without saying goodbye stops sending hellos
+    const timeoutCheck = window.setInterval(() => {
+      if (lastHelloRef.current > 0 && Date.now() - lastHelloRef.current > REMOTE_TIMEOUT_MS) {
+        lastHelloRef.current = 0
+        setRemoteConnected(false)
+      }
+    }, REMOTE_HEARTBEAT_MS)
+
+    return () => {
+      clearInterval(timeoutCheck)
+      channel.close()
+      channelRef.current = null
+    }
+  }, [post])
+
+  // Push every change of the look to a connected remote
+  useEffect(() => {
+    if (remoteConnected) post({ type: 'hero-state', hostId, state })
+  }, [remoteConnected, state, post])
+
+  const reportFps = useCallback((fps: number) => {
+    if (lastHelloRef.current > 0) post({ type: 'hero-stats', hostId, fps })
+  }, [post])
+
+  return { hostId, remoteConnected, reportFps }
+}
+
+interface UseRemoteClientResult {
+  heroConnected: boolean
+  heroState: RemoteHeroState | null
+  fps: number | null
+  sendSettingsChange: (settings: PostProcessingSettings) => void
+  sendSettingsLoad: (settings: PostProcessingSettings, source?: string, presetName?: string) => void
+}
+
+/**
+ * Remote window side: announces itself to the hero page that opened it and
+ * mirrors the state it reports back.
+ */
+export const useRemoteClient = (): UseRemoteClientResult => {
+  const [heroState, setHeroState] = useState<RemoteHeroState | null>(null)
+  const [fps, setFps] = useState<number | null>(null)
+  const [heroConnected, setHeroConnected] = useState(false)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const lastHeardRef = useRef(0)
+  const [remoteHostId] = useState(readRemoteHostId)
+
+  const post = useCallback((message: RemoteMessage) => {
+    channelRef.current?.postMessage(message)
+  }, [])
+
+  useEffect(() => {
+    if (!canUseChannel()) return
+
+    const channel = new BroadcastChannel(REMOTE_CHANNEL_NAME)
+    channelRef.current = channel
+
+    channel.onmessage = (event: MessageEvent<RemoteChannelMessage>) => {
+      const message = event.data as HeroMessage
+      if (message?.hostId !== remoteHostId) return
+      if (message.type !== 'hero-state' && message.type !== 'hero-stats') return
+
+      lastHeardRef.current = Date.now()
+      setHeroConnected(true)
+      if (message.type === 'hero-state') {
+        setHeroState(message.state)
+      } else {
+        setFps(message.fps)
+      }
+    }
+
+    const heartbeat = () => {
+      post({ type: 'remote-hello', hostId: remoteHostId })
+      if (lastHeardRef.current > 0 && Date.now() - lastHeardRef.current > REMOTE_TIMEOUT_MS) {
+        lastHeardRef.current = 0
+        setHeroConnected(false)
+        setFps(null)
+      }
+    }
+    heartbeat()
+    const heartbeatTimer = window.setInterval(heartbeat, REMOTE_HEARTBEAT_MS)
+
+    // Hand the hero page its dev UI back as soon as this window goes away
+    const sayGoodbye = () => post({ type: 'remote-goodbye', hostId: remoteHostId })
+    window.addEventListener('pagehide', sayGoodbye)
+
+    return () => {
+      window.removeEventListener('pagehide', sayGoodbye)
+      clearInterval(heartbeatTimer)
+      sayGoodbye()
+      channel.close()
+      channelRef.current = null
+    }
+  }, [post, remoteHostId])
+
+  const sendSettingsChange = useCallback((settings: PostProcessingSettings) => {
+    post({ type: 'remote-settings-change', hostId: remoteHostId, settings })
+  }, [post, remoteHostId])
+
+  const sendSettingsLoad = useCallback((settings: PostProcessingSettings, source?: string, presetName?: string) => {
+    post({ type: 'remote-settings-load', hostId: remoteHostId, settings, source, presetName })
+  }, [post, remoteHostId])
+
+  return { heroConnected, heroState, fps, sendSettingsChange, sendSettingsLoad }
+}
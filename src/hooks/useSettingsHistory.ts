@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { PostProcessingSettings } from '../utils/postProcessingSchema'
+import { diffSettings, formatSettingsValue } from '../utils/settingsDiff'
+
+export interface SettingsHistoryEntry {
+  settings: PostProcessingSettings
+  label: string
+  timestamp: number
+  // Changed field paths, used to merge consecutive edits of the same control
+  changeKey: string
+}
+
+interface PushOptions {
+  label?: string
+  // Set to false for discrete actions (loads, resets) that should always get their own step
+  coalesce?: boolean
+}
+
+export interface SettingsHistory {
+  present: PostProcessingSettings
+  entries: SettingsHistoryEntry[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  push: (settings: PostProcessingSettings, options?: PushOptions) => void
+  undo: () => void
+  redo: () => void
+  jumpTo: (index: number) => void
+}
+
+const MAX_HISTORY_ENTRIES = 100
+// Edits of the same field closer together than this are one slider drag
+const COALESCE_WINDOW_MS = 800
+
+const describeChanges = (from: PostProcessingSettings, to: PostProcessingSettings): string => {
+  const changes = diffSettings(from, to)
+  if (changes.length === 0) return 'No changes'
+  if (changes.length <= 2) {
+    return changes
+      .map((change) => `${change.path} ${formatSettingsValue(change.from)} → ${formatSettingsValue(change.to)}`)
+      .join(', ')
+  }
+  const sections = Array.from(new Set(changes.map((change) => change.path.split('.')[0])))
+  return `${changes.length} changes in ${sections.join(', ')}`
+}
+
+export const useSettingsHistory = (initialSettings: () => PostProcessingSettings): SettingsHistory => {
+  const [state, setState] = useState(() => ({
+    entries: [{
+      settings: initialSettings(),
+      label: 'Initial settings',
+      timestamp: Date.now(),
+      changeKey: '',
+    }] as SettingsHistoryEntry[],
+    index: 0,
+  }))
+
+  const push = useCallback((settings: PostProcessingSettings, options: PushOptions = {}) => {
+    setState((current) => {
+      const top = current.entries[current.index]
+      const changes = diffSettings(top.settings, settings)
+      if (changes.length === 0) return current
+
+      const now = Date.now()
+      const changeKey = changes.map((change) => change.path).sort().join('|')
+      const previous = current.entries[current.index - 1]
+      const canCoalesce = options.coalesce !== false
+        && current.index === current.entries.length - 1
+        && previous !== undefined
+        && top.changeKey === changeKey
+        && now - top.timestamp < COALESCE_WINDOW_MS
+
+      if (canCoalesce) {
+        // Continuing the same drag: replace the last step instead of adding one
+        const merged: SettingsHistoryEntry = {
+          settings,
+          label: options.label ?? describeChanges(previous.settings, settings),
+          timestamp: now,
+          changeKey,
+        }
+        return { entries: [...current.entries.slice(0, -1), merged], index: current.index }
+      }
+
+      const entry: SettingsHistoryEntry = {
+        settings,
+        label: options.label ?? describeChanges(top.settings, settings),
+        timestamp: now,
+        changeKey: options.coalesce === false ? '' : changeKey,
+      }
+      const entries = [...current.entries.slice(0, current.index + 1), entry].slice(-MAX_HISTORY_ENTRIES)
+      return { entries, index: entries.length - 1 }
+    })
+  }, [])
+
+  const jumpTo = useCallback((index: number) => {
+    setState((current) => {
+      if (index < 0 || index >= current.entries.length || index === current.index) return current
+      return { ...current, index }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setState((current) => (current.index > 0 ? { ...current, index: current.index - 1 } : current))
+  }, [])
+
+  const redo = useCallback(() => {
+    setState((current) => (
+      current.index < current.entries.length - 1 ? { ...current, index: current.index + 1 } : current
+    ))
+  }, [])
+
+  return {
+    present: state.entries[state.index].settings,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    push,
+    undo,
+    redo,
+    jumpTo,
+  }
+}
+
+const isTextField = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type)
+}
+
+/**
+ * Binds Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, plus Ctrl+Y) to undo/redo.
+ * Text fields keep their native undo behaviour.
+ */
+export const useUndoRedoShortcuts = (undo: () => void, redo: () => void, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextField(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [undo, redo, enabled])
+}
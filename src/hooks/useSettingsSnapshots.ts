@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { PostProcessingSettings } from '../utils/postProcessingSchema'
+import { migrateSettings } from '../utils/settingsMigrations'
+import {
+  listSnapshots,
+  recordSnapshot,
+  deleteSnapshot,
+  pruneSnapshots,
+  subscribeToSnapshots,
+  loadSnapshotRetention,
+  saveSnapshotRetention,
+} from '../utils/settingsSnapshots'
+import type { SettingsSnapshot, SnapshotRetention } from '../utils/settingsSnapshots'
+
+// Older builds kept a single copy of the last state under this key
+const LEGACY_AUTO_BACKUP_KEY = 'saohouse-settings-auto-backup'
+// Changes closer together than this (a slider drag) become one snapshot
+const RECORD_DELAY_MS = 1000
+
+/**
+ * Records a snapshot once the settings have settled after a change. The
+ * settings present on mount are recorded too, unless they already match
+ * the latest snapshot, so the timeline always holds the starting point.
+ */
+export const useSnapshotRecorder = (settings: PostProcessingSettings, label: string) => {
+  const initialSettings = useRef(settings)
+  const labelRef = useRef(label)
+  labelRef.current = label
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    // Strict mode runs mount effects twice; one initial snapshot is enough
+    if (startedRef.current) return
+    startedRef.current = true
+
+    // Carry the old single auto-backup over into the timeline once
+    const importLegacyBackup = async () => {
+      const legacyBackup = localStorage.getItem(LEGACY_AUTO_BACKUP_KEY)
+      if (!legacyBackup) return
+
+      localStorage.removeItem(LEGACY_AUTO_BACKUP_KEY)
+      try {
+        const migration = migrateSettings(JSON.parse(legacyBackup))
+        if (migration.ok) await recordSnapshot(migration.settings, 'Imported auto-backup')
+      } catch (error) {
+        console.warn('Failed to import the old auto-backup into the snapshot timeline:', error)
+      }
+    }
+
+    // recordSnapshot skips settings that match the latest snapshot, so this
+    // only adds one when the timeline is empty or has moved on since
+    importLegacyBackup()
+      .then(() => recordSnapshot(initialSettings.current, labelRef.current))
+      .catch((error) => {
+        console.warn('Failed to record the initial settings snapshot:', error)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (settings === initialSettings.current) return
+
+    const timer = window.setTimeout(() => {
+      recordSnapshot(settings, labelRef.current).catch((error) => {
+        console.warn('Failed to record settings snapshot:', error)
+      })
+    }, RECORD_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [settings])
+}
+
+interface UseSnapshotTimelineResult {
+  snapshots: SettingsSnapshot[]
+  loading: boolean
+  error: string | null
+  retention: SnapshotRetention
+  setRetention: (retention: SnapshotRetention) => void
+  remove: (id: number) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const useSnapshotTimeline = (): UseSnapshotTimelineResult => {
+  const [snapshots, setSnapshots] = useState<SettingsSnapshot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [retention, setRetentionState] = useState(loadSnapshotRetention)
+
+  const refresh = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading snapshots:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return subscribeToSnapshots(refresh)
+  }, [refresh])
+
+  const setRetention = useCallback((next: SnapshotRetention) => {
+    saveSnapshotRetention(next)
+    setRetentionState(next)
+    // Tightening the limits applies right away rather than at the next change
+    pruneSnapshots(next).catch((err) => {
+      console.error('Error pruning snapshots:', err)
+      setError(err instanceof Error ? err.message : 'Failed to prune snapshots')
+    })
+  }, [])
+
+  const remove = useCallback(async (id: number) => {
+    try {
+      await deleteSnapshot(id)
+    } catch (err) {
+      console.error('Error deleting snapshot:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot')
+    }
+  }, [])
+
+  return { snapshots, loading, error, retention, setRetention, remove, refresh }
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { PostProcessingSettings } from '../utils/postProcessingSchema'
+import { createSettingsEnvelope, migrateSettings } from '../utils/settingsMigrations'
+import type { SettingsEnvelope } from '../utils/settingsMigrations'
+
+const CHANNEL_NAME = 'saohouse-settings-sync'
+const FOLLOW_STORAGE_KEY = 'saohouse-settings-sync-follow'
+
+interface SettingsSyncMessage {
+  type: 'settings'
+  tabId: string
+  envelope: SettingsEnvelope
+}
+
+interface UseSettingsSyncOptions {
+  settings: PostProcessingSettings
+  // Called with settings changed in another tab while this tab is following
+  onRemoteSettings: (settings: PostProcessingSettings) => void
+  // localStorage key the settings are saved under, watched when BroadcastChannel is unavailable
+  storageKey: string
+}
+
+interface UseSettingsSyncResult {
+  following: boolean
+  setFollowing: (following: boolean) => void
+}
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Keeps settings in step across open tabs. Local changes are broadcast and
+ * remote ones applied live; a detached tab neither sends nor receives.
+ * The follow/detach choice is per tab, so it lives in sessionStorage.
+ * Browsers without BroadcastChannel fall back to the storage event of the
+ * saved settings, which every tab writes regardless of its sync state.
+ */
+export const useSettingsSync = ({ settings, onRemoteSettings, storageKey }: UseSettingsSyncOptions): UseSettingsSyncResult => {
+  const [following, setFollowingState] = useState(() => sessionStorage.getItem(FOLLOW_STORAGE_KEY) !== 'false')
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  // Settings last sent or received, so neither the initial state nor an applied remote change is echoed back
+  const lastSyncedRef = useRef<PostProcessingSettings | null>(null)
+  const onRemoteSettingsRef = useRef(onRemoteSettings)
+  onRemoteSettingsRef.current = onRemoteSettings
+
+  const setFollowing = useCallback((value: boolean) => {
+    sessionStorage.setItem(FOLLOW_STORAGE_KEY, String(value))
+    setFollowingState(value)
+  }, [])
+
+  // Listen for changes from other tabs
+  useEffect(() => {
+    if (!following) return
+
+    const applyRemote = (payload: unknown) => {
+      const result = migrateSettings(payload)
+      if (!result.ok) {
+        console.warn('Ignoring settings from another tab:', result.error)
+        return
+      }
+      lastSyncedRef.current = result.settings
+      onRemoteSettingsRef.current(result.settings)
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(CHANNEL_NAME)
+      channel.onmessage = (event: MessageEvent<SettingsSyncMessage>) => {
+        const message = event.data
+        if (message?.type !== 'settings' || message.tabId === tabId) return
+        applyRemote(message.envelope)
+      }
+      channelRef.current = channel
+
+      return () => {
+        channel.close()
+        channelRef.current = null
+      }
+    }
+
+    // Fallback: other tabs' localStorage writes fire a storage event here
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || !event.newValue) return
+      try {
+        applyRemote(JSON.parse(event.newValue))
+      } catch (error) {
+        console.warn('Ignoring unreadable settings from another tab:', error)
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [following, storageKey])
+
+  // Broadcast local changes
+  useEffect(() => {
+    if (!following) {
+      lastSyncedRef.current = null
+      return
+    }
+    // The first settings seen after (re)attaching are this tab's own starting point, not a change
+    if (lastSyncedRef.current === null || lastSyncedRef.current === settings) {
+      lastSyncedRef.current = settings
+      return
+    }
+
+    lastSyncedRef.current = settings
+    const message: SettingsSyncMessage = { type: 'settings', tabId, envelope: createSettingsEnvelope(settings) }
+    channelRef.current?.postMessage(message)
+  }, [following, settings])
+
+  return { following, setFollowing }
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { PostProcessingSettings } from '../utils/postProcessingSchema'
+import { decodeLook, readLookFragment, clearLookFragment } from '../utils/shareLink'
+
+interface UseSharedLookResult {
+  sharedLook: PostProcessingSettings | null
+  error: string | null
+  // True while a link present on load is still decoding
+  pending: boolean
+  dismiss: () => void
+}
+
+/**
+ * Picks up a `#look=...` share link on load (and whenever the hash
+ * changes) and decodes it into settings without touching saved state.
+ * The fragment is read before the first render, so callers can hold the
+ * scene back while `pending` rather than show the saved look first.
+ */
+export const useSharedLook = (): UseSharedLookResult => {
+  const [sharedLook, setSharedLook] = useState<PostProcessingSettings | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState(() => readLookFragment() !== null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadFromHash = async () => {
+      const encoded = readLookFragment()
+      if (!encoded) return
+
+      const result = await decodeLook(encoded)
+      if (cancelled) return
+      setPending(false)
+
+      if (result.ok) {
+        setSharedLook(result.settings)
+        setError(null)
+        if (result.issues.length > 0) {
+          console.warn('Repaired invalid settings in shared look:', result.issues)
+        }
+      } else {
+        console.warn('Could not open shared look:', result.error)
+        setSharedLook(null)
+        setError(result.error)
+        clearLookFragment()
+      }
+    }
+
+    loadFromHash()
+    window.addEventListener('hashchange', loadFromHash)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener('hashchange', loadFromHash)
+    }
+  }, [])
+
+  const dismiss = useCallback(() => {
+    setSharedLook(null)
+    setError(null)
+    clearLookFragment()
+  }, [])
+
+  return { sharedLook, error, pending, dismiss }
+}
@@ -1,10 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import RemoteControlPanel from './components/RemoteControlPanel.tsx'
+import { isRemoteWindow } from './utils/remoteControl'
 import './style.css'
 
 ReactDOM.createRoot(document.getElementById('app')!).render(
   <React.StrictMode>
-    <App />
+    {isRemoteWindow() ? <RemoteControlPanel /> : <App />}
   </React.StrictMode>,
-) 
\ No newline at end of file
+)
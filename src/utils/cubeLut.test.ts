@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseCubeLut } from './cubeLut';
+
+// Identity 3D table of size 2, red changing fastest
+const identity3D = [
+  '0 0 0',
+  '1 0 0',
+  '0 1 0',
+  '1 1 0',
+  '0 0 1',
+  '1 0 1',
+  '0 1 1',
+  '1 1 1',
+];
+
+const cube = (...lines: string[]) => lines.join('\n');
+
+describe('parseCubeLut', () => {
+  it('reads a 3D table with its title', () => {
+    const lut = parseCubeLut(cube('# Made by hand', 'TITLE "Identity"', 'LUT_3D_SIZE 2', '', ...identity3D));
+
+    expect(lut).toMatchObject({ title: 'Identity', kind: '3D', size: 2, domainMin: [0, 0, 0], domainMax: [1, 1, 1] });
+    expect(lut.table).toHaveLength(8 * 3);
+    expect(Array.from(lut.table.subarray(3, 6))).toEqual([1, 0, 0]);
+  });
+
+  it('reads a 1D table', () => {
+    const lut = parseCubeLut(cube('LUT_1D_SIZE 3', '0 0 0', '0.25 0.5 0.75', '1 1 1'));
+
+    expect(lut).toMatchObject({ title: null, kind: '1D', size: 3 });
+    expect(Array.from(lut.table)).toEqual([0, 0, 0, 0.25, 0.5, 0.75, 1, 1, 1]);
+  });
+
+  it('accepts Windows line endings', () => {
+    expect(parseCubeLut(['LUT_3D_SIZE 2', ...identity3D].join('\r\n')).size).toBe(2);
+  });
+
+  it('reads DOMAIN_MIN and DOMAIN_MAX', () => {
+    const lut = parseCubeLut(cube('DOMAIN_MIN 0 0.1 0.2', 'DOMAIN_MAX 2 2 4', 'LUT_3D_SIZE 2', ...identity3D));
+
+    expect(lut.domainMin).toEqual([0, 0.1, 0.2]);
+    expect(lut.domainMax).toEqual([2, 2, 4]);
+  });
+
+  it('reads Resolve input ranges as the domain', () => {
+    const lut = parseCubeLut(cube('LUT_1D_INPUT_RANGE -0.5 1.5', 'LUT_1D_SIZE 2', '0 0 0', '1 1 1'));
+
+    expect(lut.domainMin).toEqual([-0.5, -0.5, -0.5]);
+    expect(lut.domainMax).toEqual([1.5, 1.5, 1.5]);
+  });
+
+  it('skips keywords it does not use', () => {
+    expect(parseCubeLut(cube('LUT_IN_VIDEO_RANGE', 'LUT_3D_SIZE 2', ...identity3D)).kind).toBe('3D');
+  });
+
+  it.each([
+    ['a size of 1', cube('LUT_3D_SIZE 1', '0 0 0'), /LUT_3D_SIZE must be a whole number from 2 to 256/],
+    ['a fractional size', cube('LUT_1D_SIZE 2.5', '0 0 0'), /LUT_1D_SIZE must be a whole number/],
+    ['a 3D size over the limit', cube('LUT_3D_SIZE 257'), /from 2 to 256/],
+    ['two sizes', cube('LUT_1D_SIZE 2', 'LUT_3D_SIZE 2'), /more than one LUT size/],
+    ['no size', cube('TITLE "Empty"'), /Missing LUT_1D_SIZE or LUT_3D_SIZE/],
+  ])('rejects %s', (_label, input, message) => {
+    expect(() => parseCubeLut(input)).toThrow(message);
+  });
+
+  it('rejects too few table rows', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...identity3D.slice(0, 7)))).toThrow(
+      'Expected 8 table rows for a 3D LUT of size 2, found 7'
+    );
+  });
+
+  it('rejects too many table rows', () => {
+    expect(() => parseCubeLut(cube('LUT_1D_SIZE 2', '0 0 0', '1 1 1', '1 1 1'))).toThrow(
+      'Line 4: more table rows than the declared size'
+    );
+  });
+
+  it.each([
+    ['table data before the size', cube('0 0 0', 'LUT_1D_SIZE 2'), 'Line 1: table data before LUT_1D_SIZE or LUT_3D_SIZE'],
+    ['a short row', cube('LUT_1D_SIZE 2', '0 0', '1 1 1'), 'Line 2: A table row expects 3 numbers'],
+    ['a non-numeric row', cube('LUT_1D_SIZE 2', '0 0 0', '1 one 1'), 'Line 3: A table row expects 3 numbers'],
+    ['a short DOMAIN_MIN', cube('DOMAIN_MIN 0 0', 'LUT_1D_SIZE 2', '0 0 0', '1 1 1'), 'Line 1: DOMAIN_MIN expects 3 numbers'],
+    ['an empty domain', cube('DOMAIN_MIN 0 1 0', 'LUT_1D_SIZE 2', '0 0 0', '1 1 1'), 'DOMAIN_MIN must be below DOMAIN_MAX'],
+  ])('rejects %s', (_label, input, message) => {
+    expect(() => parseCubeLut(input)).toThrow(message);
+  });
+});
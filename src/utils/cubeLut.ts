@@ -0,0 +1,108 @@
+/**
+ * Parser for Adobe / DaVinci Resolve `.cube` lookup tables.
+ *
+ * Both 1D (`LUT_1D_SIZE`) and 3D (`LUT_3D_SIZE`) tables are supported, with
+ * the optional `DOMAIN_MIN` / `DOMAIN_MAX` and Resolve's `LUT_*_INPUT_RANGE`
+ * keywords. Table rows are stored in file order, red changing fastest.
+ */
+
+export type CubeLutKind = '1D' | '3D';
+
+export interface CubeLut {
+  title: string | null;
+  kind: CubeLutKind;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  // RGB triplets, `size` rows for 1D and `size³` rows for 3D
+  table: Float32Array;
+}
+
+const MAX_1D_SIZE = 65536;
+const MAX_3D_SIZE = 256;
+
+const parseNumbers = (parts: string[], count: number, lineNumber: number, keyword: string) => {
+  const values = parts.slice(0, count).map(Number);
+  if (parts.length < count || values.some((value) => !Number.isFinite(value))) {
+    throw new Error(`Line ${lineNumber}: ${keyword} expects ${count} numbers`);
+  }
+  return values;
+};
+
+export const parseCubeLut = (input: string): CubeLut => {
+  let title: string | null = null;
+  let kind: CubeLutKind | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let table: Float32Array | null = null;
+  let rows = 0;
+
+  for (const [index, rawLine] of input.split(/\r?\n/).entries()) {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'TITLE') {
+      title = /"([^"]*)"/.exec(line)?.[1] ?? parts.slice(1).join(' ');
+      continue;
+    }
+
+    if (keyword === 'LUT_1D_SIZE' || keyword === 'LUT_3D_SIZE') {
+      if (kind) {
+        throw new Error(`Line ${lineNumber}: the file declares more than one LUT size`);
+      }
+      kind = keyword === 'LUT_1D_SIZE' ? '1D' : '3D';
+      size = Number(parts[1]);
+      const maxSize = kind === '1D' ? MAX_1D_SIZE : MAX_3D_SIZE;
+      if (!Number.isInteger(size) || size < 2 || size > maxSize) {
+        throw new Error(`Line ${lineNumber}: ${keyword} must be a whole number from 2 to ${maxSize}`);
+      }
+      table = new Float32Array((kind === '1D' ? size : size ** 3) * 3);
+      continue;
+    }
+
+    if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+      const values = parseNumbers(parts.slice(1), 3, lineNumber, keyword) as [number, number, number];
+      if (keyword === 'DOMAIN_MIN') domainMin = values;
+      else domainMax = values;
+      continue;
+    }
+
+    if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = parseNumbers(parts.slice(1), 2, lineNumber, keyword);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+      continue;
+    }
+
+    // Anything else starting with a letter is a keyword we don't need (e.g. LUT_IN_VIDEO_RANGE)
+    if (/^[A-Z_]/.test(keyword)) continue;
+
+    if (!table || !kind) {
+      throw new Error(`Line ${lineNumber}: table data before LUT_1D_SIZE or LUT_3D_SIZE`);
+    }
+    const [r, g, b] = parseNumbers(parts, 3, lineNumber, 'A table row');
+    if (rows * 3 >= table.length) {
+      throw new Error(`Line ${lineNumber}: more table rows than the declared size`);
+    }
+    table.set([r, g, b], rows * 3);
+    rows++;
+  }
+
+  if (!kind || !table) {
+    throw new Error('Missing LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+  const expectedRows = table.length / 3;
+  if (rows !== expectedRows) {
+    throw new Error(`Expected ${expectedRows} table rows for a ${kind} LUT of size ${size}, found ${rows}`);
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX on every channel');
+  }
+
+  return { title, kind, size, domainMin, domainMax, table };
+};
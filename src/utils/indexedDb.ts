@@ -0,0 +1,89 @@
+/**
+ * Minimal promise wrapper around the IndexedDB database that holds the
+ * larger settings data (presets, the snapshot timeline, imported LUTs
+ * and anything stored alongside them).
+ */
+
+const DATABASE_NAME = 'saohouse-looks';
+const DATABASE_VERSION = 3;
+
+export const PRESET_STORE = 'presets';
+export const SNAPSHOT_STORE = 'snapshots';
+export const LUT_STORE = 'luts';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const upgradeDatabase = (database: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const presets = database.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+    presets.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 2) {
+    // Auto-incremented ids double as the recording order
+    const snapshots = database.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+    snapshots.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 3) {
+    database.createObjectStore(LUT_STORE, { keyPath: 'id' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const database = request.result;
+      // Step aside when a newer build in another tab needs to upgrade the schema
+      database.onversionchange = () => {
+        database.close();
+        databasePromise = null;
+      };
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Settings database upgrade is blocked by another open tab'));
+  });
+
+  // Allow a later call to retry if opening failed
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `operation` against a single object store and resolves with its
+ * result once the transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+  const result = requestToPromise(operation(transaction.objectStore(storeName)));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+  return result;
+};
@@ -0,0 +1,83 @@
+import { LUT_STORE, withStore } from './indexedDb';
+import { parseCubeLut } from './cubeLut';
+import type { CubeLutKind } from './cubeLut';
+
+/** An imported `.cube` file, kept verbatim so it can be re-exported */
+export interface StoredLut {
+  id: string;
+  // File name it was imported from
+  name: string;
+  title: string | null;
+  kind: CubeLutKind;
+  size: number;
+  source: string;
+  createdAt: string;
+}
+
+/** The part of a stored LUT embedded in exported settings files */
+export type EmbeddedLut = Pick<StoredLut, 'id' | 'name' | 'source'>;
+
+type LutListener = () => void;
+const listeners = new Set<LutListener>();
+
+/** Lets LUT pickers and loaded textures refresh when LUTs are imported or removed */
+export const subscribeToLuts = (listener: LutListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listLuts = async (): Promise<StoredLut[]> => {
+  const luts = await withStore<StoredLut[]>(LUT_STORE, 'readonly', (store) => store.getAll());
+  return luts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getLut = async (id: string): Promise<StoredLut | null> => {
+  const lut = await withStore<StoredLut | undefined>(LUT_STORE, 'readonly', (store) => store.get(id));
+  return lut ?? null;
+};
+
+/** Parses and stores a `.cube` file; throws with the parse error if it's invalid */
+export const importLut = async (name: string, source: string, id: string = createId()): Promise<StoredLut> => {
+  const parsed = parseCubeLut(source);
+  const lut: StoredLut = {
+    id,
+    name,
+    title: parsed.title,
+    kind: parsed.kind,
+    size: parsed.size,
+    source,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(LUT_STORE, 'readwrite', (store) => store.put(lut));
+  notifyListeners();
+  return lut;
+};
+
+/**
+ * Stores LUTs embedded in an imported settings file under their original
+ * ids, so the settings referencing them resolve. LUTs already in the
+ * library are left alone. Returns how many were added.
+ */
+export const storeEmbeddedLuts = async (luts: EmbeddedLut[]): Promise<number> => {
+  let added = 0;
+  for (const lut of luts) {
+    if (await getLut(lut.id)) continue;
+    await importLut(lut.name, lut.source, lut.id);
+    added++;
+  }
+  return added;
+};
+
+export const deleteLut = async (id: string): Promise<void> => {
+  await withStore(LUT_STORE, 'readwrite', (store) => store.delete(id));
+  notifyListeners();
+};
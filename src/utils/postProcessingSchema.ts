@@ -0,0 +1,708 @@
+import { BlendFunction, SMAAPreset, ToneMappingMode, VignetteTechnique } from 'postprocessing';
+
+/**
+ * Single definition of every post-processing setting: its type, default,
+ * valid range and unit. The TypeScript types, the default settings object
+ * and the runtime sanitizer below are all derived from this schema.
+ */
+
+interface NumberField {
+  type: 'number';
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+  unit?: string;
+}
+
+interface BooleanField {
+  type: 'boolean';
+  default: boolean;
+}
+
+interface Vec2Field {
+  type: 'vec2';
+  default: [number, number];
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+interface EnumField<T extends number = number> {
+  type: 'enum';
+  default: T;
+  options: { value: T; label: string }[];
+}
+
+// Stored as a lowercase `#rrggbb` string
+interface ColorField {
+  type: 'color';
+  default: string;
+}
+
+// Free text, e.g. the id of a stored asset
+interface TextField {
+  type: 'text';
+  default: string;
+  maxLength: number;
+}
+
+// Ordered list of distinct strings, e.g. object names
+interface TextListField {
+  type: 'textList';
+  default: string[];
+  maxItems: number;
+  maxLength: number;
+}
+
+/** Effects that can be placed, toggled and blended in the effect stack */
+export const EFFECT_IDS = [
+  'ssao',
+  'depthOfField',
+  'lensDistortion',
+  'chromaticAberration',
+  'bloom',
+  'godRays',
+  'filmGrain',
+  'vignette',
+  'colorGrade',
+  'toneMapping',
+  'lut',
+] as const;
+export type EffectId = (typeof EFFECT_IDS)[number];
+
+export const EFFECT_LABELS: Record<EffectId, string> = {
+  ssao: 'SSAO',
+  depthOfField: 'Depth of Field',
+  lensDistortion: 'Lens Distortion',
+  chromaticAberration: 'Chromatic Aberration',
+  bloom: 'Bloom',
+  godRays: 'God Rays',
+  filmGrain: 'Film Grain',
+  vignette: 'Vignette',
+  colorGrade: 'Color Grade',
+  toneMapping: 'Tone Mapping',
+  lut: 'LUT',
+};
+
+export const BLEND_FUNCTION_OPTIONS: { value: BlendFunction; label: string }[] = [
+  { value: BlendFunction.NORMAL, label: 'Normal' },
+  { value: BlendFunction.SRC, label: 'Replace' },
+  { value: BlendFunction.ADD, label: 'Add' },
+  { value: BlendFunction.SCREEN, label: 'Screen' },
+  { value: BlendFunction.MULTIPLY, label: 'Multiply' },
+  { value: BlendFunction.OVERLAY, label: 'Overlay' },
+  { value: BlendFunction.SOFT_LIGHT, label: 'Soft Light' },
+  { value: BlendFunction.COLOR_DODGE, label: 'Color Dodge' },
+  { value: BlendFunction.COLOR_BURN, label: 'Color Burn' },
+  { value: BlendFunction.DARKEN, label: 'Darken' },
+  { value: BlendFunction.LIGHTEN, label: 'Lighten' },
+  { value: BlendFunction.DIFFERENCE, label: 'Difference' },
+  { value: BlendFunction.AVERAGE, label: 'Average' },
+];
+
+export const GOD_RAYS_CUSTOM_EMITTER = 0;
+
+/**
+ * Lights in ChromeObject that god rays can come from. The pipeline finds
+ * each one in the scene by its object name.
+ */
+export const GOD_RAYS_LIGHTS = [
+  { value: 1, label: 'Key light', objectName: 'chrome-key-light' },
+  { value: 2, label: 'Red accent', objectName: 'chrome-red-accent' },
+  { value: 3, label: 'Blue accent', objectName: 'chrome-blue-accent' },
+  { value: 4, label: 'Green accent', objectName: 'chrome-green-accent' },
+  { value: 5, label: 'Purple accent', objectName: 'chrome-purple-accent' },
+  { value: 6, label: 'Cyan rim', objectName: 'chrome-cyan-rim' },
+  { value: 7, label: 'Orange warm', objectName: 'chrome-orange-warm' },
+  { value: 8, label: 'Left fill', objectName: 'chrome-left-fill' },
+  { value: 9, label: 'Front fill', objectName: 'chrome-front-fill' },
+];
+
+/** Tone mapping mode for the adjustable curve, outside postprocessing's operators */
+export const TONE_MAPPING_CUSTOM = 100;
+
+/** three.js layer ChromeObject puts the logo meshes on, for selection masks */
+export const LOGO_LAYER = 10;
+
+/** Default layer of objects that bloom in selective mode */
+export const BLOOM_LAYER = 11;
+
+// How the final image is anti-aliased
+export const ANTIALIASING_NONE = 0;
+export const ANTIALIASING_MSAA = 1;
+export const ANTIALIASING_SMAA = 2;
+export const ANTIALIASING_FXAA = 3;
+
+// Where chromatic aberration is held back
+export const ABERRATION_MASK_DEPTH = 0;
+export const ABERRATION_MASK_SELECTION = 1;
+export const ABERRATION_MASK_NONE = 2;
+
+/** One effect's place in the stack; the array order is the render order */
+export interface EffectStackEntry {
+  id: EffectId;
+  enabled: boolean;
+  blendFunction: BlendFunction;
+  opacity: number;
+}
+
+interface StackField {
+  type: 'stack';
+  default: EffectStackEntry[];
+}
+
+type SettingsField = NumberField | BooleanField | Vec2Field | EnumField | ColorField | TextField | TextListField | StackField;
+type SectionSchema = Record<string, SettingsField>;
+
+const number = (
+  defaultValue: number,
+  min: number,
+  max: number,
+  step: number,
+  extra: Pick<NumberField, 'integer' | 'unit'> = {}
+): NumberField => ({ type: 'number', default: defaultValue, min, max, step, ...extra });
+
+const integer = (defaultValue: number, min: number, max: number, unit?: string): NumberField =>
+  number(defaultValue, min, max, 1, { integer: true, unit });
+
+const boolean = (defaultValue: boolean): BooleanField => ({ type: 'boolean', default: defaultValue });
+
+const vec2 = (defaultValue: [number, number], min: number, max: number, step: number, unit?: string): Vec2Field => ({
+  type: 'vec2',
+  default: defaultValue,
+  min,
+  max,
+  step,
+  unit,
+});
+
+const enumeration = <T extends number>(defaultValue: T, options: { value: T; label: string }[]): EnumField<T> => ({
+  type: 'enum',
+  default: defaultValue,
+  options,
+});
+
+const color = (defaultValue: string): ColorField => ({ type: 'color', default: defaultValue });
+
+const text = (defaultValue: string, maxLength: number): TextField => ({ type: 'text', default: defaultValue, maxLength });
+
+const textList = (defaultValue: string[], maxItems: number, maxLength: number): TextListField => ({
+  type: 'textList',
+  default: defaultValue,
+  maxItems,
+  maxLength,
+});
+
+const stackEntry = (id: EffectId, enabled: boolean, blendFunction: BlendFunction, opacity = 1.0): EffectStackEntry => ({
+  id,
+  enabled,
+  blendFunction,
+  opacity,
+});
+
+const stack = (entries: EffectStackEntry[]): StackField => ({ type: 'stack', default: entries });
+
+const cloneDefault = (field: SettingsField) => {
+  if (field.type === 'stack') return field.default.map((entry) => ({ ...entry }));
+  return Array.isArray(field.default) ? [...field.default] : field.default;
+};
+
+export const postProcessingSchema = {
+  toneMapping: {
+    mode: enumeration<ToneMappingMode | typeof TONE_MAPPING_CUSTOM>(ToneMappingMode.ACES_FILMIC, [
+      { value: ToneMappingMode.LINEAR, label: 'Linear' },
+      { value: ToneMappingMode.REINHARD, label: 'Reinhard' },
+      { value: ToneMappingMode.REINHARD2, label: 'Reinhard2' },
+      { value: ToneMappingMode.REINHARD2_ADAPTIVE, label: 'Reinhard2 Adaptive' },
+      { value: ToneMappingMode.UNCHARTED2, label: 'Uncharted2' },
+      { value: ToneMappingMode.OPTIMIZED_CINEON, label: 'Optimized Cineon' },
+      { value: ToneMappingMode.ACES_FILMIC, label: 'ACES Filmic' },
+      { value: ToneMappingMode.AGX, label: 'AgX' },
+      { value: ToneMappingMode.NEUTRAL, label: 'Neutral' },
+      { value: TONE_MAPPING_CUSTOM, label: 'Custom Curve' },
+    ]),
+    // Multiplies the scene ahead of the operator
+    exposure: number(1.2, 0.1, 3.0, 0.1, { unit: '×' }),
+    // Reinhard2 and Uncharted2 white point; also where the custom curve reaches white
+    whitePoint: number(16.0, 1.0, 32.0, 1.0),
+    middleGrey: number(0.6, 0.1, 1.0, 0.05),
+    adaptation: number(1.0, 0.1, 2.0, 0.1, { unit: '/s' }),
+    // Custom curve shape; the ranges keep it monotonic
+    curveContrast: number(1.6, 1.0, 2.0, 0.05),
+    curveShoulder: number(0.97, 0.9, 1.0, 0.01),
+    curveMidOut: number(0.27, 0.18, 0.4, 0.01),
+  },
+  bloom: {
+    intensity: number(0.8, 0.0, 3.0, 0.1),
+    luminanceThreshold: number(0.85, 0.0, 1.0, 0.05),
+    luminanceSmoothing: number(0.4, 0.0, 1.0, 0.05),
+    mipmapBlur: boolean(true),
+    // Selective mode blooms only objects on `selectionLayer` plus the named GLB meshes
+    selective: boolean(false),
+    selectionLayer: integer(BLOOM_LAYER, 1, 31),
+    meshNames: textList([], 64, 128),
+  },
+  chromaticAberration: {
+    redOffset: vec2([0.015, 0.0], -0.1, 0.1, 0.001, 'uv'),     // Red channel moves right
+    greenOffset: vec2([0.0, 0.0], -0.1, 0.1, 0.001, 'uv'),     // Green channel stays centered
+    blueOffset: vec2([-0.015, 0.0], -0.1, 0.1, 0.001, 'uv'),   // Blue channel moves left
+    // Radial mode measures offsets outward/around from the center and scales
+    // them up from zero at `modulationOffset` to full strength at the corners
+    radialModulation: boolean(false),
+    modulationOffset: number(0.0, 0.0, 1.0, 0.01),
+    center: vec2([0.5, 0.5], 0.0, 1.0, 0.01, 'uv'),
+    blur: number(0.002, 0.0, 0.01, 0.0001),
+    // The depth mask fades the effect in between two depth-buffer values; the
+    // selection mask suppresses it over objects on `maskLayer`
+    maskMode: enumeration(ABERRATION_MASK_DEPTH, [
+      { value: ABERRATION_MASK_DEPTH, label: 'Depth range' },
+      { value: ABERRATION_MASK_SELECTION, label: 'Selection layer' },
+      { value: ABERRATION_MASK_NONE, label: 'None' },
+    ]),
+    depthMaskStart: number(0.98, 0.0, 1.0, 0.0005),
+    depthMaskEnd: number(0.995, 0.0, 1.0, 0.0005),
+    // Below this mask strength the pixel is left untouched
+    maskCutoff: number(0.1, 0.0, 1.0, 0.01),
+    maskLayer: integer(LOGO_LAYER, 1, 31),
+  },
+  filmGrain: {
+    intensity: number(0.3, 0.0, 1.0, 0.05),
+    // Grain size in pixels
+    size: number(1.5, 1.0, 4.0, 0.1),
+    // New grain patterns per second; 0 freezes the grain
+    animationRate: integer(24, 0, 60),
+    monochrome: boolean(true),
+    // Grain strength in the shadows and highlights, relative to the midtones
+    shadows: number(0.6, 0.0, 1.0, 0.05),
+    highlights: number(0.2, 0.0, 1.0, 0.05),
+  },
+  ssao: {
+    intensity: number(0.5, 0.0, 1.0, 0.05),
+    radius: number(1.0, 0.1, 2.0, 0.05),
+    bias: number(0.05, 0.0, 1.0, 0.05),
+    samples: integer(16, 1, 32),
+    rings: integer(4, 1, 8),
+    distanceThreshold: number(1.0, 0.1, 2.0, 0.05),
+    distanceFalloff: number(0.5, 0.1, 1.0, 0.05),
+  },
+  blur: {
+    enabled: boolean(false),
+    intensity: number(0.5, 0.1, 2.0, 0.1),
+    kernelSize: number(35.5, 3, 101, 0.5, { unit: 'px' }),
+    iterations: integer(1, 1, 5),
+  },
+  depthOfField: {
+    focusDistance: number(10.0, 1.0, 20.0, 0.1, { unit: 'units' }),
+    focalLength: number(50.0, 10.0, 100.0, 1.0, { unit: 'mm' }),
+    bokehScale: number(1.0, 0.1, 2.0, 0.05),
+  },
+  lensDistortion: {
+    barrelDistortion: number(0.0, -0.5, 0.5, 0.01),
+    chromaticAberration: number(0.0, 0.0, 0.02, 0.0001),
+    vignette: number(0.0, 0.0, 2.0, 0.01),
+    center: vec2([0.5, 0.5], 0.0, 1.0, 0.01, 'uv'),
+  },
+  vignette: {
+    technique: enumeration(VignetteTechnique.DEFAULT, [
+      { value: VignetteTechnique.DEFAULT, label: 'Default' },
+      { value: VignetteTechnique.ESKIL, label: 'Eskil' },
+    ]),
+    darkness: number(0.3, 0.0, 1.0, 0.01),
+    offset: number(0.3, 0.0, 2.0, 0.01),
+    color: color('#000000'),
+    aspect: number(1.0, 0.25, 4.0, 0.05, { unit: '×' }),
+    center: vec2([0.5, 0.5], 0.0, 1.0, 0.01, 'uv'),
+  },
+  godRays: {
+    source: enumeration(GOD_RAYS_LIGHTS[0].value, [
+      { value: GOD_RAYS_CUSTOM_EMITTER, label: 'Custom emitter' },
+      ...GOD_RAYS_LIGHTS.map(({ value, label }) => ({ value, label })),
+    ]),
+    // Only used by the custom emitter; light sources follow their light
+    emitterX: number(2.0, -10.0, 10.0, 0.1, { unit: 'units' }),
+    emitterY: number(1.0, -10.0, 10.0, 0.1, { unit: 'units' }),
+    emitterZ: number(-1.0, -10.0, 10.0, 0.1, { unit: 'units' }),
+    emitterSize: number(0.1, 0.01, 1.0, 0.01, { unit: 'units' }),
+    samples: integer(60, 15, 200),
+    density: number(0.96, 0.0, 1.0, 0.01),
+    decay: number(0.9, 0.0, 1.0, 0.01),
+    weight: number(0.4, 0.0, 1.0, 0.01),
+    exposure: number(0.6, 0.0, 1.0, 0.01),
+  },
+  // Primary grade on the HDR image before tone mapping; defaults are neutral
+  colorGrade: {
+    temperature: number(0.0, -1.0, 1.0, 0.01),
+    tint: number(0.0, -1.0, 1.0, 0.01),
+    contrast: number(1.0, 0.5, 2.0, 0.01, { unit: '×' }),
+    saturation: number(1.0, 0.0, 2.0, 0.01, { unit: '×' }),
+    vibrance: number(0.0, -1.0, 1.0, 0.01),
+    hue: number(0.0, -180.0, 180.0, 1.0, { unit: '°' }),
+    // Colour wheels: puck position in the unit disc plus a luminance offset
+    lift: vec2([0.0, 0.0], -1.0, 1.0, 0.01),
+    liftLuminance: number(0.0, -1.0, 1.0, 0.01),
+    gamma: vec2([0.0, 0.0], -1.0, 1.0, 0.01),
+    gammaLuminance: number(0.0, -1.0, 1.0, 0.01),
+    gain: vec2([0.0, 0.0], -1.0, 1.0, 0.01),
+    gainLuminance: number(0.0, -1.0, 1.0, 0.01),
+  },
+  // Colour grading with an imported .cube file, looked up in the LUT library by id
+  lut: {
+    lutId: text('', 64),
+    intensity: number(1.0, 0.0, 1.0, 0.01),
+    tetrahedral: boolean(false),
+  },
+  // MSAA resolves the scene render; SMAA and FXAA filter the finished image
+  antialiasing: {
+    mode: enumeration(ANTIALIASING_MSAA, [
+      { value: ANTIALIASING_MSAA, label: 'MSAA' },
+      { value: ANTIALIASING_SMAA, label: 'SMAA' },
+      { value: ANTIALIASING_FXAA, label: 'FXAA' },
+      { value: ANTIALIASING_NONE, label: 'None' },
+    ]),
+    msaaSamples: enumeration(4, [
+      { value: 2, label: '2×' },
+      { value: 4, label: '4×' },
+      { value: 8, label: '8×' },
+    ]),
+    smaaPreset: enumeration(SMAAPreset.MEDIUM, [
+      { value: SMAAPreset.LOW, label: 'Low' },
+      { value: SMAAPreset.MEDIUM, label: 'Medium' },
+      { value: SMAAPreset.HIGH, label: 'High' },
+      { value: SMAAPreset.ULTRA, label: 'Ultra' },
+    ]),
+  },
+  // Render order, on/off, blending and opacity of every effect
+  effectStack: {
+    entries: stack([
+      stackEntry('ssao', true, BlendFunction.MULTIPLY),
+      stackEntry('depthOfField', false, BlendFunction.NORMAL),
+      stackEntry('lensDistortion', false, BlendFunction.NORMAL),
+      stackEntry('chromaticAberration', true, BlendFunction.NORMAL),
+      stackEntry('bloom', true, BlendFunction.SCREEN, 0.8),
+      stackEntry('godRays', false, BlendFunction.SCREEN),
+      stackEntry('filmGrain', true, BlendFunction.NORMAL),
+      stackEntry('vignette', true, BlendFunction.NORMAL),
+      stackEntry('colorGrade', false, BlendFunction.NORMAL),
+      stackEntry('toneMapping', true, BlendFunction.SRC),
+      stackEntry('lut', false, BlendFunction.NORMAL),
+    ]),
+  },
+};
+
+type Schema = typeof postProcessingSchema;
+export type SettingsSectionKey = keyof Schema;
+
+type FieldValue<F> = F extends EnumField<infer T>
+  ? T
+  : F extends NumberField
+    ? number
+    : F extends BooleanField
+      ? boolean
+      : F extends Vec2Field
+        ? [number, number]
+        : F extends ColorField | TextField
+          ? string
+          : F extends TextListField
+            ? string[]
+            : F extends StackField
+              ? EffectStackEntry[]
+              : never;
+
+export type SectionSettings<K extends SettingsSectionKey> = {
+  [F in keyof Schema[K]]: FieldValue<Schema[K][F]>;
+};
+
+export type ToneMappingSettings = SectionSettings<'toneMapping'>;
+export type BloomSettings = SectionSettings<'bloom'>;
+export type ChromaticAberrationSettings = SectionSettings<'chromaticAberration'>;
+export type FilmGrainSettings = SectionSettings<'filmGrain'>;
+export type SSAOSettings = SectionSettings<'ssao'>;
+export type BlurSettings = SectionSettings<'blur'>;
+export type DepthOfFieldSettings = SectionSettings<'depthOfField'>;
+export type LensDistortionSettings = SectionSettings<'lensDistortion'>;
+export type VignetteSettings = SectionSettings<'vignette'>;
+export type GodRaysSettings = SectionSettings<'godRays'>;
+export type ColorGradeSettings = SectionSettings<'colorGrade'>;
+export type LutSettings = SectionSettings<'lut'>;
+export type AntialiasingSettings = SectionSettings<'antialiasing'>;
+export type EffectStackSettings = SectionSettings<'effectStack'>;
+
+export type PostProcessingSettings = {
+  [K in SettingsSectionKey]: SectionSettings<K>;
+};
+
+export const SETTINGS_SECTIONS = Object.keys(postProcessingSchema) as SettingsSectionKey[];
+
+export const isSettingsSection = (section: string): section is SettingsSectionKey =>
+  SETTINGS_SECTIONS.includes(section as SettingsSectionKey);
+
+/** Range attributes for an `<input type="range">` bound to a numeric field */
+export const rangeProps = (field: NumberField | Vec2Field) => ({
+  min: field.min,
+  max: field.max,
+  step: field.step,
+});
+
+const sectionDefaults = <K extends SettingsSectionKey>(section: K): SectionSettings<K> => {
+  const fields = postProcessingSchema[section] as SectionSchema;
+  const defaults: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([name, field]) => {
+    defaults[name] = cloneDefault(field);
+  });
+  return defaults as SectionSettings<K>;
+};
+
+export const createDefaultSettings = (): PostProcessingSettings => {
+  const settings: Record<string, unknown> = {};
+  SETTINGS_SECTIONS.forEach((section) => {
+    settings[section] = sectionDefaults(section);
+  });
+  return settings as PostProcessingSettings;
+};
+
+export const defaultPostProcessingSettings: PostProcessingSettings = createDefaultSettings();
+
+export type SettingsIssueKind = 'missing' | 'invalid' | 'out-of-range' | 'unknown';
+
+/** A single problem found while sanitizing settings */
+export interface SettingsIssue {
+  kind: SettingsIssueKind;
+  // Dotted path such as `ssao.rings`, or just the section name
+  path: string;
+  // Expected type or range, e.g. `integer in [1, 8]`
+  expected: string;
+  received: unknown;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const describeField = (field: SettingsField): string => {
+  switch (field.type) {
+    case 'number':
+      return `${field.integer ? 'integer' : 'number'} in [${field.min}, ${field.max}]`;
+    case 'vec2':
+      return `[number, number] in [${field.min}, ${field.max}]`;
+    case 'boolean':
+      return 'boolean';
+    case 'enum':
+      return `one of ${field.options.map((option) => option.label).join(', ')}`;
+    case 'color':
+      return 'hex colour like #000000';
+    case 'text':
+      return `text of at most ${field.maxLength} characters`;
+    case 'textList':
+      return `list of at most ${field.maxItems} names`;
+    case 'stack':
+      return 'list of effect entries';
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const sanitizeField = (field: SettingsField, value: unknown, path: string, issues: SettingsIssue[]): unknown => {
+  const report = (kind: SettingsIssueKind) => issues.push({ kind, path, expected: describeField(field), received: value });
+
+  if (value === undefined) {
+    report('missing');
+    return cloneDefault(field);
+  }
+
+  switch (field.type) {
+    case 'number': {
+      if (!isFiniteNumber(value)) {
+        report('invalid');
+        return field.default;
+      }
+      const sanitized = clamp(field.integer ? Math.round(value) : value, field.min, field.max);
+      if (sanitized !== value) report('out-of-range');
+      return sanitized;
+    }
+    case 'vec2': {
+      if (!Array.isArray(value) || value.length !== 2 || !value.every(isFiniteNumber)) {
+        report('invalid');
+        return [...field.default];
+      }
+      const sanitized = value.map((component) => clamp(component, field.min, field.max)) as [number, number];
+      if (sanitized.some((component, index) => component !== value[index])) report('out-of-range');
+      return sanitized;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        report('invalid');
+        return field.default;
+      }
+      return value;
+    case 'enum':
+      if (!field.options.some((option) => option.value === value)) {
+        report('invalid');
+        return field.default;
+      }
+      return value;
+    case 'color':
+      if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+        report('invalid');
+        return field.default;
+      }
+      return value.toLowerCase();
+    case 'text':
+      if (typeof value !== 'string') {
+        report('invalid');
+        return field.default;
+      }
+      if (value.length > field.maxLength) {
+        report('out-of-range');
+        return field.default;
+      }
+      return value;
+    case 'textList': {
+      if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+        report('invalid');
+        return cloneDefault(field);
+      }
+      const sanitized = Array.from(new Set(value.filter((item) => item.length <= field.maxLength))).slice(0, field.maxItems);
+      if (sanitized.length !== value.length) report('out-of-range');
+      return sanitized;
+    }
+    case 'stack':
+      if (!Array.isArray(value)) {
+        report('invalid');
+        return cloneDefault(field);
+      }
+      return sanitizeStack(field, value, path, issues);
+  }
+};
+
+/**
+ * Keeps the saved order of known effects, repairs each entry and appends
+ * any effect the saved list doesn't mention with its defaults.
+ */
+const sanitizeStack = (field: StackField, value: unknown[], path: string, issues: SettingsIssue[]): EffectStackEntry[] => {
+  const defaults = new Map(field.default.map((entry) => [entry.id, entry]));
+  const entries: EffectStackEntry[] = [];
+
+  value.forEach((item, index) => {
+    const input = typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {};
+    const fallback = defaults.get(input.id as EffectId);
+    if (!fallback || entries.some((entry) => entry.id === input.id)) {
+      issues.push({ kind: 'unknown', path: `${path}[${index}]`, expected: 'one entry per known effect', received: item });
+      return;
+    }
+
+    const entryPath = `${path}.${fallback.id}`;
+    const check = <T>(name: string, valid: (candidate: unknown) => boolean, expected: string, defaultValue: T): T => {
+      if (valid(input[name])) return input[name] as T;
+      issues.push({
+        kind: input[name] === undefined ? 'missing' : 'invalid',
+        path: `${entryPath}.${name}`,
+        expected,
+        received: input[name],
+      });
+      return defaultValue;
+    };
+
+    const opacity = check('opacity', isFiniteNumber, 'number in [0, 1]', fallback.opacity);
+    if (opacity < 0 || opacity > 1) {
+      issues.push({ kind: 'out-of-range', path: `${entryPath}.opacity`, expected: 'number in [0, 1]', received: opacity });
+    }
+
+    entries.push({
+      id: fallback.id,
+      enabled: check('enabled', (candidate) => typeof candidate === 'boolean', 'boolean', fallback.enabled),
+      blendFunction: check(
+        'blendFunction',
+        (candidate) => BLEND_FUNCTION_OPTIONS.some((option) => option.value === candidate),
+        `one of ${BLEND_FUNCTION_OPTIONS.map((option) => option.label).join(', ')}`,
+        fallback.blendFunction
+      ),
+      opacity: clamp(opacity, 0, 1),
+    });
+  });
+
+  field.default.forEach((entry) => {
+    if (!entries.some((existing) => existing.id === entry.id)) {
+      issues.push({ kind: 'missing', path: `${path}.${entry.id}`, expected: 'effect stack entry', received: undefined });
+      entries.push({ ...entry });
+    }
+  });
+
+  return entries;
+};
+
+/** The stack entry for one effect; every sanitized stack has exactly one */
+export const getStackEntry = (stackSettings: EffectStackSettings, id: EffectId): EffectStackEntry =>
+  stackSettings.entries.find((entry) => entry.id === id)
+  ?? (postProcessingSchema.effectStack.entries.default.find((entry) => entry.id === id) as EffectStackEntry);
+
+/**
+ * Checks one section against the schema. Missing or mistyped fields fall
+ * back to their default, out-of-range numbers are clamped and unknown
+ * fields are dropped; every change is recorded in `issues`.
+ */
+export const sanitizeSection = <K extends SettingsSectionKey>(
+  section: K,
+  value: unknown,
+  issues: SettingsIssue[] = []
+): SectionSettings<K> => {
+  const fields = postProcessingSchema[section] as SectionSchema;
+  const input = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const sanitized: Record<string, unknown> = {};
+
+  Object.entries(fields).forEach(([name, field]) => {
+    sanitized[name] = sanitizeField(field, input[name], `${section}.${name}`, issues);
+  });
+
+  Object.keys(input)
+    .filter((name) => !(name in fields))
+    .forEach((name) => {
+      issues.push({ kind: 'unknown', path: `${section}.${name}`, expected: 'no such field', received: input[name] });
+    });
+
+  return sanitized as SectionSettings<K>;
+};
+
+/** Sanitizes a whole settings object, returning the repaired copy and what was changed */
+export const sanitizeSettings = (value: unknown): { settings: PostProcessingSettings; issues: SettingsIssue[] } => {
+  const input = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const issues: SettingsIssue[] = [];
+  const settings: Record<string, unknown> = {};
+
+  SETTINGS_SECTIONS.forEach((section) => {
+    const sectionValue = input[section];
+    if (sectionValue === undefined) {
+      // Report the section once rather than every field inside it
+      issues.push({ kind: 'missing', path: section, expected: 'settings section', received: undefined });
+      settings[section] = sectionDefaults(section);
+      return;
+    }
+    if (typeof sectionValue !== 'object' || sectionValue === null || Array.isArray(sectionValue)) {
+      issues.push({ kind: 'invalid', path: section, expected: 'settings section', received: sectionValue });
+      settings[section] = sectionDefaults(section);
+      return;
+    }
+    settings[section] = sanitizeSection(section, sectionValue, issues);
+  });
+
+  Object.keys(input)
+    .filter((section) => !isSettingsSection(section))
+    .forEach((section) => {
+      issues.push({ kind: 'unknown', path: section, expected: 'no such section', received: input[section] });
+    });
+
+  return { settings: settings as PostProcessingSettings, issues };
+};
+
+/** One-line description of an issue, e.g. `ssao.rings: missing (expected integer in [1, 8])` */
+export const describeSettingsIssue = (issue: SettingsIssue): string => {
+  const received = issue.received === undefined ? 'nothing' : JSON.stringify(issue.received);
+  switch (issue.kind) {
+    case 'missing':
+      return `${issue.path}: missing (expected ${issue.expected})`;
+    case 'unknown':
+      return `${issue.path}: unknown, ignored`;
+    default:
+      return `${issue.path}: expected ${issue.expected}, got ${received}`;
+  }
+};
@@ -0,0 +1,159 @@
+import { PRESET_STORE, withStore } from './indexedDb';
+import { SETTINGS_VERSION, migrateSettings } from './settingsMigrations';
+import type { PostProcessingSettings } from './postProcessingSchema';
+
+/** A named look saved in the preset library */
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  description: string;
+  // Small JPEG data URL of the canvas at the time the preset was saved
+  thumbnail: string | null;
+  version: number;
+  settings: PostProcessingSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewPreset {
+  name: string;
+  description: string;
+  thumbnail: string | null;
+  settings: PostProcessingSettings;
+}
+
+type PresetListener = () => void;
+const listeners = new Set<PresetListener>();
+
+/** Lets every open library view refresh when presets are saved from elsewhere */
+export const subscribeToPresets = (listener: PresetListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Presets saved by older builds are brought up to the current schema on read
+const upgradePreset = (preset: SettingsPreset): SettingsPreset | null => {
+  const migration = migrateSettings({ version: preset.version, settings: preset.settings });
+  if (!migration.ok) {
+    console.warn(`Skipping preset "${preset.name}":`, migration.error);
+    return null;
+  }
+  return { ...preset, version: SETTINGS_VERSION, settings: migration.settings };
+};
+
+export const listPresets = async (): Promise<SettingsPreset[]> => {
+  const presets = await withStore<SettingsPreset[]>(PRESET_STORE, 'readonly', (store) => store.getAll());
+  return presets
+    .map(upgradePreset)
+    .filter((preset): preset is SettingsPreset => preset !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getPreset = async (id: string): Promise<SettingsPreset | null> => {
+  const preset = await withStore<SettingsPreset | undefined>(PRESET_STORE, 'readonly', (store) => store.get(id));
+  return preset ? upgradePreset(preset) : null;
+};
+
+export const savePreset = async (preset: NewPreset): Promise<SettingsPreset> => {
+  const now = new Date().toISOString();
+  const saved: SettingsPreset = {
+    id: createId(),
+    name: preset.name.trim() || 'Untitled look',
+    description: preset.description.trim(),
+    thumbnail: preset.thumbnail,
+    version: SETTINGS_VERSION,
+    settings: JSON.parse(JSON.stringify(preset.settings)),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore(PRESET_STORE, 'readwrite', (store) => store.put(saved));
+  notifyListeners();
+  return saved;
+};
+
+export const updatePreset = async (
+  id: string,
+  changes: Partial<Pick<SettingsPreset, 'name' | 'description' | 'thumbnail' | 'settings'>>
+): Promise<SettingsPreset> => {
+  const existing = await getPreset(id);
+  if (!existing) {
+    throw new Error(`Preset ${id} no longer exists`);
+  }
+
+  const updated: SettingsPreset = {
+    ...existing,
+    ...changes,
+    name: (changes.name ?? existing.name).trim() || existing.name,
+    updatedAt: new Date().toISOString(),
+  };
+  await withStore(PRESET_STORE, 'readwrite', (store) => store.put(updated));
+  notifyListeners();
+  return updated;
+};
+
+export const renamePreset = (id: string, name: string) => updatePreset(id, { name });
+
+export const duplicatePreset = async (id: string): Promise<SettingsPreset> => {
+  const existing = await getPreset(id);
+  if (!existing) {
+    throw new Error(`Preset ${id} no longer exists`);
+  }
+
+  return savePreset({
+    name: `${existing.name} copy`,
+    description: existing.description,
+    thumbnail: existing.thumbnail,
+    settings: existing.settings,
+  });
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(PRESET_STORE, 'readwrite', (store) => store.delete(id));
+  notifyListeners();
+};
+
+const THUMBNAIL_WIDTH = 160;
+
+/**
+ * Grabs a downscaled JPEG of the WebGL canvas. The read happens in the next
+ * animation frame, right after the composer has drawn, so the drawing
+ * buffer still holds the frame without needing preserveDrawingBuffer.
+ */
+export const captureThumbnail = (canvas: HTMLCanvasElement | null): Promise<string | null> =>
+  new Promise((resolve) => {
+    if (!canvas || canvas.width === 0 || canvas.height === 0) {
+      resolve(null);
+      return;
+    }
+
+    requestAnimationFrame(() => {
+      try {
+        const thumbnail = document.createElement('canvas');
+        thumbnail.width = THUMBNAIL_WIDTH;
+        thumbnail.height = Math.round((canvas.height / canvas.width) * THUMBNAIL_WIDTH);
+
+        const context = thumbnail.getContext('2d');
+        if (!context) {
+          resolve(null);
+          return;
+        }
+
+        context.fillStyle = '#000';
+        context.fillRect(0, 0, thumbnail.width, thumbnail.height);
+        context.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+        resolve(thumbnail.toDataURL('image/jpeg', 0.8));
+      } catch (error) {
+        console.warn('Failed to capture preset thumbnail:', error);
+        resolve(null);
+      }
+    });
+  });
@@ -0,0 +1,263 @@
+import { ANTIALIASING_FXAA, ANTIALIASING_MSAA, ANTIALIASING_NONE, ANTIALIASING_SMAA } from './postProcessingSchema';
+import type { AntialiasingSettings } from './postProcessingSchema';
+
+/**
+ * Rendering limits for one rung of the quality ladder. They cap the look's
+ * own settings and never raise them, so a tier changes cost, not the look.
+ */
+export interface QualityTier {
+  label: string;
+  maxDpr: number;
+  maxSsaoSamples: number;
+  ssaoResolutionScale: number;
+  // Render height of the bloom blur chain
+  bloomHeight: number;
+  // Luminance texture size for adaptive tone mapping
+  toneMappingResolution: number;
+  // MSAA up to this many samples; 0 rules out MSAA and SMAA
+  maxMsaaSamples: number;
+  // Used in place of anything the tier rules out
+  fallbackAntialiasing: typeof ANTIALIASING_FXAA | typeof ANTIALIASING_NONE;
+  depthOfField: boolean;
+}
+
+// Highest quality first; the first tier is the pipeline's full-quality setup
+export const QUALITY_TIERS: QualityTier[] = [
+  {
+    label: 'Full',
+    maxDpr: 2,
+    maxSsaoSamples: 32,
+    ssaoResolutionScale: 1.0,
+    bloomHeight: 720,
+    toneMappingResolution: 1024,
+    maxMsaaSamples: 8,
+    fallbackAntialiasing: ANTIALIASING_FXAA,
+    depthOfField: true,
+  },
+  {
+    label: 'High',
+    maxDpr: 1.5,
+    maxSsaoSamples: 12,
+    ssaoResolutionScale: 0.75,
+    bloomHeight: 540,
+    toneMappingResolution: 512,
+    maxMsaaSamples: 4,
+    fallbackAntialiasing: ANTIALIASING_FXAA,
+    depthOfField: true,
+  },
+  {
+    label: 'Medium',
+    maxDpr: 1.25,
+    maxSsaoSamples: 8,
+    ssaoResolutionScale: 0.5,
+    bloomHeight: 360,
+    toneMappingResolution: 256,
+    maxMsaaSamples: 2,
+    fallbackAntialiasing: ANTIALIASING_FXAA,
+    depthOfField: true,
+  },
+  {
+    label: 'Low',
+    maxDpr: 1,
+    maxSsaoSamples: 6,
+    ssaoResolutionScale: 0.5,
+    bloomHeight: 270,
+    toneMappingResolution: 256,
+    maxMsaaSamples: 0,
+    fallbackAntialiasing: ANTIALIASING_FXAA,
+    depthOfField: false,
+  },
+  {
+    label: 'Minimal',
+    maxDpr: 0.75,
+    maxSsaoSamples: 4,
+    ssaoResolutionScale: 0.5,
+    bloomHeight: 180,
+    toneMappingResolution: 128,
+    maxMsaaSamples: 0,
+    fallbackAntialiasing: ANTIALIASING_NONE,
+    depthOfField: false,
+  },
+];
+
+// What can be pinned to full quality regardless of the tier
+export const QUALITY_OVERRIDES = [
+  { key: 'dpr', label: 'Pixel ratio' },
+  { key: 'ssao', label: 'SSAO' },
+  { key: 'bloom', label: 'Bloom' },
+  { key: 'toneMapping', label: 'Tone mapping' },
+  { key: 'antialiasing', label: 'Anti-aliasing' },
+  { key: 'depthOfField', label: 'Depth of field' },
+] as const;
+
+export type QualityOverride = (typeof QUALITY_OVERRIDES)[number]['key'];
+
+const PINNED_FIELDS: Record<QualityOverride, (keyof QualityTier)[]> = {
+  dpr: ['maxDpr'],
+  ssao: ['maxSsaoSamples', 'ssaoResolutionScale'],
+  bloom: ['bloomHeight'],
+  toneMapping: ['toneMappingResolution'],
+  antialiasing: ['maxMsaaSamples', 'fallbackAntialiasing'],
+  depthOfField: ['depthOfField'],
+};
+
+/** The tier at `index` with pinned effects lifted back to full quality */
+export const resolveQualityTier = (index: number, pinned: readonly QualityOverride[]): QualityTier => {
+  const tier = { ...QUALITY_TIERS[Math.min(Math.max(index, 0), QUALITY_TIERS.length - 1)] };
+  const full = QUALITY_TIERS[0];
+  pinned.forEach((key) => {
+    PINNED_FIELDS[key].forEach((field) => {
+      (tier as Record<keyof QualityTier, unknown>)[field] = full[field];
+    });
+  });
+  return tier;
+};
+
+/** The anti-aliasing a look gets under a tier: the same or cheaper */
+export const limitAntialiasing = (settings: AntialiasingSettings, tier: QualityTier): AntialiasingSettings => {
+  const fallback = { ...settings, mode: tier.fallbackAntialiasing };
+  switch (settings.mode) {
+    case ANTIALIASING_MSAA:
+      if (tier.maxMsaaSamples === 0) return fallback;
+      return {
+        ...settings,
+        msaaSamples: Math.min(settings.msaaSamples, tier.maxMsaaSamples) as AntialiasingSettings['msaaSamples'],
+      };
+    case ANTIALIASING_SMAA:
+      return tier.maxMsaaSamples === 0 ? fallback : settings;
+    case ANTIALIASING_FXAA:
+      return fallback;
+    default:
+      return settings;
+  }
+};
+
+interface QualityGovernorOptions {
+  // Average frame time that counts as too slow (ms)
+  downgradeFrameTime?: number;
+  // Average frame time with enough headroom to try the next tier up (ms)
+  upgradeFrameTime?: number;
+  // Length of one measurement window (ms)
+  windowLength?: number;
+}
+
+// Slow windows in a row before stepping down
+const DOWNGRADE_WINDOWS = 2;
+// Fast windows in a row before the first attempt to step up; doubles after each failed attempt
+const INITIAL_UPGRADE_WINDOWS = 5;
+const MAX_UPGRADE_WINDOWS = 60;
+// A step down this soon after a step up means the higher tier doesn't fit
+const FAILED_UPGRADE_WINDOWS = 4;
+// Frames longer than this are stalls (tab switch, shader compile), not load
+const STALL_FRAME_TIME = 250;
+
+export interface QualitySample {
+  tier: number;
+  // Average over the last complete window
+  frameTime: number;
+  fps: number;
+}
+
+/**
+ * Walks the quality ladder from measured frame times. Steps down quickly
+ * when frames are consistently slow, and back up only after a longer run of
+ * fast ones. Every time a step up fails it waits twice as long before trying
+ * again, so it settles instead of oscillating between two tiers.
+ */
+export class QualityGovernor {
+  private readonly downgradeFrameTime: number;
+  private readonly upgradeFrameTime: number;
+  private readonly windowLength: number;
+
+  private tier = 0;
+  private windowStart: number | null = null;
+  private windowFrames = 0;
+  private windowTime = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private upgradeWindows = INITIAL_UPGRADE_WINDOWS;
+  // Windows since the last step up, or null when the last change was a step down
+  private sinceUpgrade: number | null = null;
+  // The first window after a change includes its recompiles and reallocations
+  private settling = false;
+
+  constructor({ downgradeFrameTime = 1000 / 40, upgradeFrameTime = 1000 / 55, windowLength = 1000 }: QualityGovernorOptions = {}) {
+    this.downgradeFrameTime = downgradeFrameTime;
+    this.upgradeFrameTime = upgradeFrameTime;
+    this.windowLength = windowLength;
+  }
+
+  get currentTier() {
+    return this.tier;
+  }
+
+  /** Starts over from `tier`, e.g. after switching from a manual tier */
+  reset(tier = 0) {
+    this.tier = tier;
+    this.windowStart = null;
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    this.upgradeWindows = INITIAL_UPGRADE_WINDOWS;
+    this.sinceUpgrade = null;
+  }
+
+  /** Drops the window in progress, e.g. while rendering is throttled or stopped */
+  pause() {
+    this.windowStart = null;
+  }
+
+  /**
+   * Records one frame. Returns the finished window's measurement each time a
+   * window completes, with the tier to use from now on.
+   */
+  sample(frameTime: number, now: number): QualitySample | null {
+    if (this.windowStart === null || frameTime > STALL_FRAME_TIME) {
+      this.windowStart = now;
+      this.windowFrames = 0;
+      this.windowTime = 0;
+      return null;
+    }
+
+    this.windowFrames++;
+    this.windowTime += frameTime;
+    if (now - this.windowStart < this.windowLength) return null;
+
+    const average = this.windowTime / this.windowFrames;
+    this.windowStart = now;
+    this.windowFrames = 0;
+    this.windowTime = 0;
+
+    if (this.settling) {
+      this.settling = false;
+    } else {
+      this.judge(average);
+    }
+
+    return { tier: this.tier, frameTime: average, fps: 1000 / average };
+  }
+
+  private judge(average: number) {
+    if (this.sinceUpgrade !== null) this.sinceUpgrade++;
+
+    this.slowWindows = average > this.downgradeFrameTime ? this.slowWindows + 1 : 0;
+    this.fastWindows = average < this.upgradeFrameTime ? this.fastWindows + 1 : 0;
+
+    if (this.slowWindows >= DOWNGRADE_WINDOWS && this.tier < QUALITY_TIERS.length - 1) {
+      if (this.sinceUpgrade !== null && this.sinceUpgrade <= FAILED_UPGRADE_WINDOWS) {
+        this.upgradeWindows = Math.min(this.upgradeWindows * 2, MAX_UPGRADE_WINDOWS);
+      }
+      this.change(this.tier + 1);
+      this.sinceUpgrade = null;
+    } else if (this.fastWindows >= this.upgradeWindows && this.tier > 0) {
+      this.change(this.tier - 1);
+      this.sinceUpgrade = 0;
+    }
+  }
+
+  private change(tier: number) {
+    this.tier = tier;
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    this.settling = true;
+  }
+}
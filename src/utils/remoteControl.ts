@@ -0,0 +1,56 @@
+import type { PostProcessingSettings } from './postProcessingSchema';
+
+/**
+ * Message protocol between the hero page and the pop-out remote control
+ * window. Both sides talk over one BroadcastChannel; the remote announces
+ * itself with a heartbeat and the hero answers with its state and stats.
+ * The hero that opens a remote puts its id in the `?remote=` parameter and
+ * every message carries it, so each remote only pairs with its opener even
+ * when several hero tabs are open.
+ */
+
+export const REMOTE_CHANNEL_NAME = 'saohouse-remote-control';
+export const REMOTE_QUERY_PARAM = 'remote';
+
+// The remote repeats its hello this often; the hero gives up after missing a few
+export const REMOTE_HEARTBEAT_MS = 2000;
+export const REMOTE_TIMEOUT_MS = 5000;
+
+export interface RemoteHeroState {
+  settings: PostProcessingSettings;
+  // Name of the last applied preset, or null when the look didn't come from one
+  presetName: string | null;
+  // True once the settings have been edited since the preset was applied
+  presetModified: boolean;
+}
+
+/** Sent by the hero page */
+export type HeroMessage = { hostId: string } & (
+  | { type: 'hero-state'; state: RemoteHeroState }
+  | { type: 'hero-stats'; fps: number }
+);
+
+/** Sent by the remote window */
+export type RemoteMessage = { hostId: string } & (
+  | { type: 'remote-hello' }
+  | { type: 'remote-goodbye' }
+  | { type: 'remote-settings-change'; settings: PostProcessingSettings }
+  | { type: 'remote-settings-load'; settings: PostProcessingSettings; source?: string; presetName?: string }
+);
+
+export type RemoteChannelMessage = HeroMessage | RemoteMessage;
+
+export const isRemoteWindow = (): boolean =>
+  new URLSearchParams(window.location.search).has(REMOTE_QUERY_PARAM);
+
+/** The id of the hero page this remote window was opened by */
+export const readRemoteHostId = (): string =>
+  new URLSearchParams(window.location.search).get(REMOTE_QUERY_PARAM) ?? '';
+
+/** Opens (or focuses) the remote control window for the hero page `hostId` */
+export const openRemoteWindow = (hostId: string): Window | null => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(REMOTE_QUERY_PARAM, hostId);
+  url.hash = '';
+  return window.open(url.toString(), `saohouse-remote-control-${hostId}`, 'width=460,height=900');
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { BlendFunction } from 'postprocessing';
+import { defaultPostProcessingSettings, getStackEntry } from './postProcessingSchema';
+import type { EffectStackEntry, PostProcessingSettings } from './postProcessingSchema';
+import { diffSettings, mergeSettingsChanges } from './settingsDiff';
+
+const withStack = (update: (entries: EffectStackEntry[]) => EffectStackEntry[]): PostProcessingSettings => ({
+  ...defaultPostProcessingSettings,
+  effectStack: { entries: update(defaultPostProcessingSettings.effectStack.entries.map((entry) => ({ ...entry }))) },
+});
+
+const moveToFront = (entries: EffectStackEntry[], id: string) => [
+  ...entries.filter((entry) => entry.id === id),
+  ...entries.filter((entry) => entry.id !== id),
+];
+
+describe('diffSettings', () => {
+  it('lists effect stack changes per entry field', () => {
+    const changed = withStack((entries) =>
+      entries.map((entry) => (entry.id === 'bloom' ? { ...entry, opacity: 0.5, enabled: false } : entry))
+    );
+
+    expect(diffSettings(defaultPostProcessingSettings, changed)).toEqual([
+      { path: 'effectStack.bloom.enabled', from: true, to: false },
+      { path: 'effectStack.bloom.opacity', from: 0.8, to: 0.5 },
+    ]);
+  });
+
+  it('reports a reorder as one order change', () => {
+    const changed = withStack((entries) => moveToFront(entries, 'toneMapping'));
+
+    const changes = diffSettings(defaultPostProcessingSettings, changed);
+    expect(changes.map((change) => change.path)).toEqual(['effectStack.order']);
+    expect(changes[0].to).toEqual(changed.effectStack.entries.map((entry) => entry.id));
+  });
+});
+
+describe('mergeSettingsChanges', () => {
+  const incoming = withStack((entries) =>
+    moveToFront(entries, 'toneMapping').map((entry) => {
+      if (entry.id === 'bloom') return { ...entry, opacity: 0.3 };
+      if (entry.id === 'vignette') return { ...entry, blendFunction: BlendFunction.MULTIPLY };
+      return entry;
+    })
+  );
+
+  it('patches only the chosen stack entry, keeping the current order', () => {
+    const merged = mergeSettingsChanges(defaultPostProcessingSettings, incoming, ['effectStack.bloom.opacity']);
+
+    expect(getStackEntry(merged.effectStack, 'bloom').opacity).toBe(0.3);
+    expect(getStackEntry(merged.effectStack, 'vignette').blendFunction).toBe(BlendFunction.NORMAL);
+    expect(merged.effectStack.entries.map((entry) => entry.id)).toEqual(
+      defaultPostProcessingSettings.effectStack.entries.map((entry) => entry.id)
+    );
+  });
+
+  it('takes the incoming order without the other entry changes', () => {
+    const merged = mergeSettingsChanges(defaultPostProcessingSettings, incoming, ['effectStack.order']);
+
+    expect(merged.effectStack.entries.map((entry) => entry.id)).toEqual(incoming.effectStack.entries.map((entry) => entry.id));
+    expect(getStackEntry(merged.effectStack, 'bloom').opacity).toBe(0.8);
+  });
+
+  it('leaves the current settings untouched', () => {
+    mergeSettingsChanges(defaultPostProcessingSettings, incoming, ['effectStack.order', 'effectStack.bloom.opacity']);
+    expect(getStackEntry(defaultPostProcessingSettings.effectStack, 'bloom').opacity).toBe(0.8);
+  });
+});
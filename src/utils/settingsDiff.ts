@@ -0,0 +1,159 @@
+import type { PostProcessingSettings } from './postProcessingSchema';
+
+/** One leaf value that differs between two settings objects */
+export interface SettingsChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => valuesEqual(value, b[index]));
+  }
+  return Object.is(a, b);
+};
+
+// The stack diffs per effect, e.g. `effectStack.bloom.opacity`, with the
+// render order as one more change
+const STACK_PATH = 'effectStack.entries';
+const STACK_ORDER_PATH = 'effectStack.order';
+const STACK_ENTRY_FIELDS = ['enabled', 'blendFunction', 'opacity'] as const;
+
+const isStackEntryList = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+
+const stackEntryPath = (id: unknown, field: string) => `effectStack.${id}.${field}`;
+
+const collectStackChanges = (from: Record<string, unknown>[], to: Record<string, unknown>[], changes: SettingsChange[]) => {
+  const fromOrder = from.map((entry) => entry.id);
+  const toOrder = to.map((entry) => entry.id);
+  if (!valuesEqual(fromOrder, toOrder)) {
+    changes.push({ path: STACK_ORDER_PATH, from: fromOrder, to: toOrder });
+  }
+
+  const ids = Array.from(new Set([...toOrder, ...fromOrder]));
+  ids.forEach((id) => {
+    const fromEntry = from.find((entry) => entry.id === id);
+    const toEntry = to.find((entry) => entry.id === id);
+    STACK_ENTRY_FIELDS.forEach((field) => {
+      if (!valuesEqual(fromEntry?.[field], toEntry?.[field])) {
+        changes.push({ path: stackEntryPath(id, field), from: fromEntry?.[field], to: toEntry?.[field] });
+      }
+    });
+  });
+};
+
+const collectChanges = (from: unknown, to: unknown, path: string, changes: SettingsChange[]) => {
+  if (path === STACK_PATH && isStackEntryList(from) && isStackEntryList(to)) {
+    collectStackChanges(from, to, changes);
+    return;
+  }
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    keys.forEach((key) => collectChanges(from[key], to[key], path ? `${path}.${key}` : key, changes));
+    return;
+  }
+  if (!valuesEqual(from, to)) {
+    changes.push({ path, from, to });
+  }
+};
+
+/**
+ * Lists every field that differs between two settings objects. Vectors
+ * such as `redOffset` are compared as a single value; the effect stack
+ * lists each entry's changed fields by effect id, plus `effectStack.order`
+ * when effects moved.
+ */
+export const diffSettings = (
+  from: PostProcessingSettings | Partial<PostProcessingSettings>,
+  to: PostProcessingSettings | Partial<PostProcessingSettings>
+): SettingsChange[] => {
+  const changes: SettingsChange[] = [];
+  collectChanges(from, to, '', changes);
+  return changes;
+};
+
+/** Formats a settings value for display, e.g. `0.8` or `[0.015, 0]` */
+export const formatSettingsValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'number') return String(Number(value.toFixed(4)));
+  // A whole effect stack reads as its enabled effects in order
+  if (isStackEntryList(value)) {
+    const enabled = value
+      .filter((item) => item.enabled !== false)
+      .map((item) => (typeof item.opacity === 'number' && item.opacity < 1 ? `${item.id} ${Math.round(item.opacity * 100)}%` : item.id));
+    return enabled.length > 0 ? enabled.join(' › ') : 'none';
+  }
+  if (Array.isArray(value)) return `[${value.map(formatSettingsValue).join(', ')}]`;
+  if (isPlainObject(value)) return '{…}';
+  return String(value);
+};
+
+const setPath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  });
+  node[keys[keys.length - 1]] = Array.isArray(value) ? JSON.parse(JSON.stringify(value)) : value;
+};
+
+// Patches one stack entry by id, or reorders the entries, leaving the rest of the stack alone
+const applyStackChange = (target: Record<string, unknown>, change: SettingsChange, incoming: Record<string, unknown>[]) => {
+  const effectStack = target.effectStack as { entries: Record<string, unknown>[] };
+  if (change.path === STACK_ORDER_PATH) {
+    const order = change.to as unknown[];
+    effectStack.entries = [
+      ...order.flatMap((id) => effectStack.entries.filter((entry) => entry.id === id)),
+      ...effectStack.entries.filter((entry) => !order.includes(entry.id)),
+    ];
+    return;
+  }
+
+  const [, id, field] = change.path.split('.');
+  let entry = effectStack.entries.find((candidate) => candidate.id === id);
+  if (!entry) {
+    const source = incoming.find((candidate) => candidate.id === id);
+    if (!source) return;
+    entry = { ...source };
+    effectStack.entries.push(entry);
+  }
+  entry[field] = change.to;
+};
+
+/**
+ * Copies the selected field paths from `incoming` onto a copy of `current`.
+ * Sections that only exist in `incoming` are created as needed, so the
+ * result should be passed through `sanitizeSettings` to fill any gaps.
+ * Stack paths patch the matching entry by id, so choosing one effect's
+ * opacity keeps the current order and the other entries.
+ */
+export const mergeSettingsChanges = (
+  current: PostProcessingSettings,
+  incoming: PostProcessingSettings,
+  selectedPaths: Iterable<string>
+): PostProcessingSettings => {
+  const merged = JSON.parse(JSON.stringify(current)) as Record<string, unknown>;
+  const changes = new Map(diffSettings(current, incoming).map((change) => [change.path, change]));
+
+  const incomingStack: unknown = incoming.effectStack?.entries;
+
+  for (const path of selectedPaths) {
+    const change = changes.get(path);
+    if (!change) continue;
+    if (change.path.startsWith('effectStack.') && change.path !== STACK_PATH && isStackEntryList(incomingStack)) {
+      applyStackChange(merged, change, incomingStack);
+    } else {
+      setPath(merged, path, change.to);
+    }
+  }
+
+  return merged as PostProcessingSettings;
+};
@@ -0,0 +1,56 @@
+import { createSettingsEnvelope } from './settingsMigrations';
+import type { PostProcessingSettings } from './postProcessingSchema';
+import { getLut } from './lutLibrary';
+import type { EmbeddedLut } from './lutLibrary';
+
+interface SettingsFileOptions {
+  // Include the referenced .cube file so the look works on another machine
+  embedLuts?: boolean;
+}
+
+/**
+ * Reads the LUTs embedded in an exported settings file. Anything malformed
+ * is skipped; the settings still load and point at a missing LUT.
+ */
+export const readEmbeddedLuts = (payload: unknown): EmbeddedLut[] => {
+  const luts = typeof payload === 'object' && payload !== null ? (payload as { luts?: unknown }).luts : undefined;
+  if (!Array.isArray(luts)) return [];
+  return luts.filter(
+    (lut): lut is EmbeddedLut =>
+      typeof lut === 'object' &&
+      lut !== null &&
+      typeof lut.id === 'string' &&
+      typeof lut.name === 'string' &&
+      typeof lut.source === 'string'
+  );
+};
+
+/** Saves settings as a versioned JSON file through a temporary download link */
+export const downloadSettingsFile = async (
+  settings: PostProcessingSettings,
+  fileName: string,
+  { embedLuts = false }: SettingsFileOptions = {}
+) => {
+  const settingsData: Record<string, unknown> = { ...createSettingsEnvelope(settings) };
+
+  // Otherwise the LUT is exported by reference, as its library id
+  if (embedLuts && settings.lut.lutId) {
+    const lut = await getLut(settings.lut.lutId);
+    if (lut) {
+      const embedded: EmbeddedLut = { id: lut.id, name: lut.name, source: lut.source };
+      settingsData.luts = [embedded];
+    }
+  }
+
+  const dataStr = JSON.stringify(settingsData, null, 2);
+  const dataBlob = new Blob([dataStr], { type: 'application/json' });
+  const url = URL.createObjectURL(dataBlob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { BlendFunction } from 'postprocessing';
+import { createSettingsEnvelope, migrateSettings, SETTINGS_VERSION } from './settingsMigrations';
+import { defaultPostProcessingSettings, getStackEntry } from './postProcessingSchema';
+
+const allMigrationsFrom = (version: number) =>
+  Array.from({ length: SETTINGS_VERSION - version }, (_, index) => version + index + 1);
+
+const migrateOk = (payload: unknown) => {
+  const result = migrateSettings(payload);
+  if (!result.ok) throw new Error(`Expected migration to succeed: ${result.error}`);
+  return result;
+};
+
+describe('migrateSettings', () => {
+  it('round-trips the current envelope unchanged', () => {
+    const result = migrateOk(createSettingsEnvelope(defaultPostProcessingSettings));
+
+    expect(result.fromVersion).toBe(SETTINGS_VERSION);
+    expect(result.appliedMigrations).toEqual([]);
+    expect(result.issues).toEqual([]);
+    expect(result.settings).toEqual(defaultPostProcessingSettings);
+  });
+
+  it('survives JSON serialisation, as it does in localStorage', () => {
+    const saved = JSON.stringify(createSettingsEnvelope(defaultPostProcessingSettings));
+    expect(migrateOk(JSON.parse(saved)).settings).toEqual(defaultPostProcessingSettings);
+  });
+
+  it('upgrades a version 0 tone-mapping-only object', () => {
+    const result = migrateOk({ mode: 2, exposure: 0.8, whitePoint: 8, middleGrey: 0.5, adaptation: 2 });
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.appliedMigrations).toEqual(allMigrationsFrom(0));
+    expect(result.settings.toneMapping).toMatchObject({ mode: 2, exposure: 0.8, whitePoint: 8, middleGrey: 0.5, adaptation: 2 });
+    // Sections that didn't exist yet start from their defaults
+    expect(result.settings.bloom).toEqual(defaultPostProcessingSettings.bloom);
+    expect(result.settings.effectStack.entries.map((entry) => entry.id)).toEqual(
+      defaultPostProcessingSettings.effectStack.entries.map((entry) => entry.id)
+    );
+  });
+
+  it('splits a version 2 single chromatic aberration offset into channels', () => {
+    const result = migrateOk({
+      version: 2,
+      settings: {
+        toneMapping: defaultPostProcessingSettings.toneMapping,
+        chromaticAberration: { offset: [0.02, 0.0], radialModulation: true, modulationOffset: 0.1 },
+      },
+    });
+
+    expect(result.fromVersion).toBe(2);
+    expect(result.appliedMigrations).toEqual(allMigrationsFrom(2));
+    expect(result.settings.chromaticAberration).toMatchObject({
+      redOffset: [0.02, 0.0],
+      greenOffset: [0.0, 0.0],
+      blueOffset: [-0.02, 0.0],
+      radialModulation: true,
+      modulationOffset: 0.1,
+    });
+    expect(result.settings.chromaticAberration).not.toHaveProperty('offset');
+  });
+
+  it('reads the legacy "1.0" envelope as version 3', () => {
+    const result = migrateOk({
+      version: '1.0',
+      settings: {
+        toneMapping: defaultPostProcessingSettings.toneMapping,
+        bloom: { ...defaultPostProcessingSettings.bloom, opacity: 0.5 },
+        filmGrain: { intensity: 0.3, opacity: 0.075 },
+        depthOfField: { ...defaultPostProcessingSettings.depthOfField, enabled: true },
+      },
+    });
+
+    expect(result.fromVersion).toBe(3);
+    expect(result.appliedMigrations).toEqual(allMigrationsFrom(3));
+    const stack = result.settings.effectStack;
+    expect(getStackEntry(stack, 'bloom').opacity).toBe(0.5);
+    expect(getStackEntry(stack, 'depthOfField').enabled).toBe(true);
+    // Half the old dodge opacity is half strength on the new normal blend
+    expect(getStackEntry(stack, 'filmGrain')).toMatchObject({ blendFunction: BlendFunction.NORMAL, opacity: 0.5 });
+    expect(result.settings.bloom).not.toHaveProperty('opacity');
+  });
+
+  it('repairs out-of-range values and reports them', () => {
+    const result = migrateOk(
+      createSettingsEnvelope({
+        ...defaultPostProcessingSettings,
+        toneMapping: { ...defaultPostProcessingSettings.toneMapping, exposure: 1000 },
+      })
+    );
+
+    expect(result.issues.length).toBeGreaterThan(0);
+    expect(result.settings.toneMapping.exposure).toBeLessThan(1000);
+  });
+
+  it.each([
+    ['null', null],
+    ['an array', [1, 2, 3]],
+    ['a string', 'settings'],
+    ['an unrecognised object', { hello: 'world' }],
+    ['an unknown version string', { version: 'beta', settings: {} }],
+    ['a negative version', { version: -1, settings: {} }],
+    ['an envelope without settings', { version: 2 }],
+    ['non-object settings', { version: 2, settings: 'nope' }],
+  ])('rejects %s', (_label, payload) => {
+    const result = migrateSettings(payload);
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects settings from a newer version', () => {
+    const result = migrateSettings({ version: SETTINGS_VERSION + 1, settings: defaultPostProcessingSettings });
+
+    expect(result).toMatchObject({ ok: false });
+    if (!result.ok) expect(result.error).toContain(`version ${SETTINGS_VERSION + 1}`);
+  });
+});
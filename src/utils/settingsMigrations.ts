@@ -0,0 +1,392 @@
+import { BlendFunction, SMAAPreset } from 'postprocessing';
+import {
+  defaultPostProcessingSettings,
+  SETTINGS_SECTIONS,
+  GOD_RAYS_CUSTOM_EMITTER,
+  ABERRATION_MASK_DEPTH,
+  LOGO_LAYER,
+  BLOOM_LAYER,
+  ANTIALIASING_MSAA,
+  sanitizeSettings,
+} from './postProcessingSchema';
+import type { EffectId, PostProcessingSettings, SettingsIssue } from './postProcessingSchema';
+
+/**
+ * Schema history for saved post-processing settings.
+ *
+ * 0 - tone-mapping-only object (the very first saved format, no wrapper)
+ * 1 - sectioned object that may be missing effects added later
+ * 2 - all effect sections, chromatic aberration as a single `offset`
+ * 3 - per-channel RGB chromatic aberration (the legacy "1.0" envelope)
+ * 4 - effect order, enable flags, blending and opacity live in `effectStack`
+ * 5 - configurable `vignette` section
+ * 6 - god rays always saved, with a light source and sample count
+ * 7 - `.cube` LUT colour grading, referenced from the LUT library
+ * 8 - primary `colorGrade` section ahead of tone mapping
+ * 9 - radial chromatic aberration gets a center; the unused single `offset` is gone
+ * 10 - chromatic aberration depth mask range and selection mask
+ * 11 - selective bloom by layer or mesh name
+ * 12 - film grain is its own effect on a normal blend, with size, animation and luminance response
+ * 13 - custom tone curve shape; exposure moves ahead of the operator with the same result
+ * 14 - selectable `antialiasing` mode
+ */
+export const SETTINGS_VERSION = 14;
+
+// Envelopes written before numbered versions existed used this string
+const LEGACY_VERSION_ALIASES: Record<string, number> = {
+  '1.0': 3,
+};
+
+// Film grain stack entry before version 12: a noise texture dodged onto the image
+const LEGACY_FILM_GRAIN_ENTRY = { blendFunction: BlendFunction.COLOR_DODGE, opacity: 0.15 };
+
+
+export interface SettingsEnvelope {
+  version: number;
+  timestamp: string;
+  settings: PostProcessingSettings;
+}
+
+export type SettingsMigrationResult =
+  | {
+      ok: true;
+      settings: PostProcessingSettings;
+      fromVersion: number;
+      appliedMigrations: number[];
+      // Everything that had to be repaired; empty when the payload was clean
+      issues: SettingsIssue[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+type SettingsRecord = Record<string, unknown>;
+type Migration = (settings: SettingsRecord) => SettingsRecord;
+
+const isRecord = (value: unknown): value is SettingsRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// A field of a section that may not be an object at all
+const field = (section: unknown, key: string) => (isRecord(section) ? section[key] : undefined);
+
+// The effect stack and its entries, when it has that shape
+const getEffectStack = (settings: SettingsRecord) => {
+  const { effectStack } = settings;
+  return isRecord(effectStack) && Array.isArray(effectStack.entries)
+    ? { effectStack, entries: effectStack.entries as unknown[] }
+    : null;
+};
+
+// migrations[n] upgrades a version n - 1 object to version n
+const migrations: Record<number, Migration> = {
+  // Tone-mapping-only object becomes the toneMapping section
+  1: (toneMapping) => ({
+    toneMapping,
+  }),
+
+  // Effects added after the first release start from their defaults
+  2: (settings) => {
+    const migrated: SettingsRecord = { ...settings };
+    SETTINGS_SECTIONS.forEach((section) => {
+      if (!isRecord(migrated[section])) {
+        migrated[section] = clone(defaultPostProcessingSettings[section as keyof PostProcessingSettings]);
+      }
+    });
+    return migrated;
+  },
+
+  // Single chromatic aberration offset splits into red/green/blue channels
+  3: (settings) => {
+    const chromaticAberration = settings.chromaticAberration;
+    if (!isRecord(chromaticAberration) || Array.isArray(chromaticAberration.redOffset)) {
+      return settings;
+    }
+
+    const { offset } = chromaticAberration;
+    const horizontal = Array.isArray(offset) && typeof offset[0] === 'number' && offset[0] !== 0 ? offset[0] : 0.015;
+    return {
+      ...settings,
+      chromaticAberration: {
+        ...defaultPostProcessingSettings.chromaticAberration,
+        ...chromaticAberration,
+        redOffset: [horizontal, 0.0],
+        greenOffset: [0.0, 0.0],
+        blueOffset: [-horizontal, 0.0],
+      },
+    };
+  },
+
+  // Per-section enabled flags and opacities move into the ordered effect stack
+  4: (settings) => {
+    const { bloom, filmGrain, depthOfField, lensDistortion, godRays, ...rest } = settings;
+    const legacy: Partial<Record<EffectId, { enabled?: unknown; opacity?: unknown }>> = {
+      bloom: { opacity: field(bloom, 'opacity') },
+      filmGrain: { opacity: field(filmGrain, 'opacity') },
+      depthOfField: { enabled: field(depthOfField, 'enabled') },
+      lensDistortion: { enabled: field(lensDistortion, 'enabled') },
+      godRays: { enabled: field(godRays, 'enabled') },
+    };
+    const withoutKey = (section: unknown, key: string) => {
+      if (!isRecord(section)) return section;
+      const { [key]: _removed, ...fields } = section;
+      return fields;
+    };
+
+    const migrated: SettingsRecord = {
+      ...rest,
+      bloom: withoutKey(bloom, 'opacity'),
+      filmGrain: withoutKey(filmGrain, 'opacity'),
+      depthOfField: withoutKey(depthOfField, 'enabled'),
+      lensDistortion: withoutKey(lensDistortion, 'enabled'),
+      effectStack: {
+        entries: defaultPostProcessingSettings.effectStack.entries.map((entry) => ({
+          ...entry,
+          ...(entry.id === 'filmGrain' ? LEGACY_FILM_GRAIN_ENTRY : {}),
+          enabled: typeof legacy[entry.id]?.enabled === 'boolean' ? legacy[entry.id]!.enabled : entry.enabled,
+          opacity: typeof legacy[entry.id]?.opacity === 'number' ? legacy[entry.id]!.opacity : entry.opacity,
+        })),
+      },
+    };
+    if (godRays !== undefined) {
+      migrated.godRays = withoutKey(godRays, 'enabled');
+    }
+    return migrated;
+  },
+
+  // The vignette was hardcoded before it had settings; the defaults reproduce it
+  5: (settings) => ({
+    ...settings,
+    vignette: isRecord(settings.vignette) ? settings.vignette : clone(defaultPostProcessingSettings.vignette),
+  }),
+
+  // God rays used to be optional and always came from a fixed emitter, which
+  // becomes the custom emitter; the unused `intensity` field is dropped
+  6: (settings) => {
+    const { godRays } = settings;
+    if (!isRecord(godRays)) {
+      return { ...settings, godRays: clone(defaultPostProcessingSettings.godRays) };
+    }
+    if ('source' in godRays) {
+      return settings;
+    }
+
+    const { intensity: _intensity, ...fields } = godRays;
+    return {
+      ...settings,
+      godRays: {
+        ...fields,
+        source: GOD_RAYS_CUSTOM_EMITTER,
+        emitterX: 2.0,
+        emitterY: 1.0,
+        emitterZ: -1.0,
+        emitterSize: 0.1,
+        samples: 60,
+      },
+    };
+  },
+
+  // LUT grading starts out off, at the end of the stack after tone mapping
+  7: (settings) => {
+    const stack = getEffectStack(settings);
+    const lutEntry = defaultPostProcessingSettings.effectStack.entries.find((entry) => entry.id === 'lut');
+    return {
+      ...settings,
+      lut: isRecord(settings.lut) ? settings.lut : clone(defaultPostProcessingSettings.lut),
+      effectStack:
+        stack && !stack.entries.some((entry) => isRecord(entry) && entry.id === 'lut')
+          ? { ...stack.effectStack, entries: [...stack.entries, { ...lutEntry }] }
+          : settings.effectStack,
+    };
+  },
+
+  // The neutral colour grade slots in just before tone mapping, switched off
+  8: (settings) => {
+    const stack = getEffectStack(settings);
+    const gradeEntry = defaultPostProcessingSettings.effectStack.entries.find((entry) => entry.id === 'colorGrade');
+    let effectStack = settings.effectStack;
+    if (stack && !stack.entries.some((entry) => isRecord(entry) && entry.id === 'colorGrade')) {
+      const { entries } = stack;
+      const toneMappingIndex = entries.findIndex((entry) => isRecord(entry) && entry.id === 'toneMapping');
+      const nextEntries = [...entries];
+      nextEntries.splice(toneMappingIndex === -1 ? entries.length : toneMappingIndex, 0, { ...gradeEntry });
+      effectStack = { ...stack.effectStack, entries: nextEntries };
+    }
+    return {
+      ...settings,
+      colorGrade: isRecord(settings.colorGrade) ? settings.colorGrade : clone(defaultPostProcessingSettings.colorGrade),
+      effectStack,
+    };
+  },
+
+  // The single offset was replaced by per-channel offsets in version 3 and
+  // never reached the shader; radial mode was ignored too, so saved looks
+  // only need the new center
+  9: (settings) => {
+    const { chromaticAberration } = settings;
+    if (!isRecord(chromaticAberration)) return settings;
+    const { offset: _offset, ...fields } = chromaticAberration;
+    return {
+      ...settings,
+      chromaticAberration: { center: [0.5, 0.5], ...fields },
+    };
+  },
+
+  // The mask was hardcoded to this depth range and cutoff
+  10: (settings) => {
+    const { chromaticAberration } = settings;
+    if (!isRecord(chromaticAberration)) return settings;
+    return {
+      ...settings,
+      chromaticAberration: {
+        maskMode: ABERRATION_MASK_DEPTH,
+        depthMaskStart: 0.98,
+        depthMaskEnd: 0.995,
+        maskCutoff: 0.1,
+        maskLayer: LOGO_LAYER,
+        ...chromaticAberration,
+      },
+    };
+  },
+
+  // Bloom was always global
+  11: (settings) => {
+    const { bloom } = settings;
+    if (!isRecord(bloom)) return settings;
+    return {
+      ...settings,
+      bloom: { selective: false, selectionLayer: BLOOM_LAYER, meshNames: [], ...bloom },
+    };
+  },
+
+  // The dodged noise gives way to grain that composites itself. The old
+  // default opacity becomes full strength, so lowered opacities keep their
+  // share of it and grain someone had faded out stays out.
+  12: (settings) => {
+    const { filmGrain } = settings;
+    const stack = getEffectStack(settings);
+    const nextEntries = stack?.entries.map((entry) => {
+      if (!isRecord(entry) || entry.id !== 'filmGrain' || entry.blendFunction !== LEGACY_FILM_GRAIN_ENTRY.blendFunction) {
+        return entry;
+      }
+      const opacity = typeof entry.opacity === 'number' ? entry.opacity : LEGACY_FILM_GRAIN_ENTRY.opacity;
+      return {
+        ...entry,
+        blendFunction: BlendFunction.NORMAL,
+        opacity: Math.min(opacity / LEGACY_FILM_GRAIN_ENTRY.opacity, 1),
+      };
+    });
+    return {
+      ...settings,
+      filmGrain: isRecord(filmGrain)
+        ? { size: 1.5, animationRate: 24, monochrome: true, shadows: 0.6, highlights: 0.2, ...filmGrain }
+        : filmGrain,
+      effectStack: stack && nextEntries ? { ...stack.effectStack, entries: nextEntries } : settings.effectStack,
+    };
+  },
+
+  // Every operator already multiplied by the renderer's exposure first, so
+  // applying it just ahead of them changes nothing; only the curve is new
+  13: (settings) => {
+    const { toneMapping } = settings;
+    if (!isRecord(toneMapping)) return settings;
+    return {
+      ...settings,
+      toneMapping: { curveContrast: 1.6, curveShoulder: 0.97, curveMidOut: 0.27, ...toneMapping },
+    };
+  },
+
+  // Looks were always rendered with 4× MSAA
+  14: (settings) => ({
+    ...settings,
+    antialiasing: isRecord(settings.antialiasing)
+      ? settings.antialiasing
+      : { mode: ANTIALIASING_MSAA, msaaSamples: 4, smaaPreset: SMAAPreset.MEDIUM },
+  }),
+};
+
+/**
+ * Works out which schema version a raw payload was written with and
+ * unwraps it from its envelope. Returns an error message for unrecognised shapes.
+ */
+const detectVersion = (payload: unknown): { version: number; settings: unknown } | string => {
+  if (!isRecord(payload)) {
+    return 'Settings data is not an object';
+  }
+
+  if ('version' in payload) {
+    const { version } = payload;
+    const numericVersion = typeof version === 'number' ? version : LEGACY_VERSION_ALIASES[String(version)];
+
+    if (numericVersion === undefined || !Number.isInteger(numericVersion) || numericVersion < 0) {
+      return `Unknown settings version "${String(version)}"`;
+    }
+    if (!('settings' in payload)) {
+      return `Settings envelope (version ${String(version)}) has no "settings" field`;
+    }
+    return { version: numericVersion, settings: payload.settings };
+  }
+
+  // Unversioned payloads from before the envelope existed
+  if ('mode' in payload) {
+    return { version: 0, settings: payload };
+  }
+  if (isRecord(payload.toneMapping) || isRecord(payload.bloom)) {
+    return { version: 1, settings: payload };
+  }
+
+  return 'Unrecognised settings format';
+};
+
+/**
+ * Walks a saved payload (envelope or legacy unversioned object) through
+ * every migration between its version and SETTINGS_VERSION.
+ */
+export const migrateSettings = (payload: unknown): SettingsMigrationResult => {
+  const detected = detectVersion(payload);
+  if (typeof detected === 'string') {
+    return { ok: false, error: detected };
+  }
+
+  const { version: fromVersion } = detected;
+  if (fromVersion > SETTINGS_VERSION) {
+    return {
+      ok: false,
+      error: `Settings were saved with version ${fromVersion}, newer than the supported version ${SETTINGS_VERSION}`,
+    };
+  }
+  if (!isRecord(detected.settings)) {
+    return { ok: false, error: `Settings (version ${fromVersion}) are not an object` };
+  }
+
+  let settings: SettingsRecord = clone(detected.settings);
+  const appliedMigrations: number[] = [];
+
+  for (let version = fromVersion + 1; version <= SETTINGS_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      return { ok: false, error: `No migration registered for settings version ${version}` };
+    }
+    settings = migration(settings);
+    appliedMigrations.push(version);
+  }
+
+  // Fill missing fields, clamp out-of-range values and drop unknown ones, recording each repair
+  const { settings: sanitized, issues } = sanitizeSettings(settings);
+
+  return {
+    ok: true,
+    settings: sanitized,
+    fromVersion,
+    appliedMigrations,
+    issues,
+  };
+};
+
+export const createSettingsEnvelope = (settings: PostProcessingSettings): SettingsEnvelope => ({
+  version: SETTINGS_VERSION,
+  timestamp: new Date().toISOString(),
+  settings,
+});
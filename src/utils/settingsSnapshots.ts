@@ -0,0 +1,145 @@
+import { SNAPSHOT_STORE, withStore } from './indexedDb';
+import { SETTINGS_VERSION, migrateSettings } from './settingsMigrations';
+import { diffSettings } from './settingsDiff';
+import type { PostProcessingSettings } from './postProcessingSchema';
+
+/** A time-stamped copy of the settings, recorded automatically as they change */
+export interface SettingsSnapshot {
+  id: number;
+  // What changed, taken from the undo history label
+  label: string;
+  version: number;
+  settings: PostProcessingSettings;
+  createdAt: string;
+}
+
+/** How much of the timeline to keep; 0 disables a limit */
+export interface SnapshotRetention {
+  maxCount: number;
+  maxAgeDays: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  maxCount: 200,
+  maxAgeDays: 7,
+};
+
+const RETENTION_STORAGE_KEY = 'saohouse-snapshot-retention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadSnapshotRetention = (): SnapshotRetention => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RETENTION_STORAGE_KEY) ?? 'null');
+    const limit = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+    return {
+      maxCount: limit(saved?.maxCount, DEFAULT_SNAPSHOT_RETENTION.maxCount),
+      maxAgeDays: limit(saved?.maxAgeDays, DEFAULT_SNAPSHOT_RETENTION.maxAgeDays),
+    };
+  } catch {
+    return DEFAULT_SNAPSHOT_RETENTION;
+  }
+};
+
+export const saveSnapshotRetention = (retention: SnapshotRetention) => {
+  localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(retention));
+};
+
+type SnapshotListener = () => void;
+const listeners = new Set<SnapshotListener>();
+
+/** Lets open timelines refresh when a snapshot is recorded or removed */
+export const subscribeToSnapshots = (listener: SnapshotListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+// Snapshots recorded by older builds are brought up to the current schema on read
+const upgradeSnapshot = (snapshot: SettingsSnapshot): SettingsSnapshot | null => {
+  const migration = migrateSettings({ version: snapshot.version, settings: snapshot.settings });
+  if (!migration.ok) {
+    console.warn(`Skipping snapshot ${snapshot.id}:`, migration.error);
+    return null;
+  }
+  return { ...snapshot, version: SETTINGS_VERSION, settings: migration.settings };
+};
+
+/** Newest first */
+export const listSnapshots = async (): Promise<SettingsSnapshot[]> => {
+  const snapshots = await withStore<SettingsSnapshot[]>(SNAPSHOT_STORE, 'readonly', (store) => store.getAll());
+  return snapshots
+    .map(upgradeSnapshot)
+    .filter((snapshot): snapshot is SettingsSnapshot => snapshot !== null)
+    .reverse();
+};
+
+/**
+ * Drops snapshots beyond either retention limit. The newest snapshot is
+ * always kept so the timeline never empties itself.
+ */
+export const pruneSnapshots = async (retention: SnapshotRetention): Promise<void> => {
+  const ids = await withStore<IDBValidKey[]>(SNAPSHOT_STORE, 'readonly', (store) => store.getAllKeys());
+  if (ids.length <= 1) return;
+
+  const candidates = ids.slice(0, -1) as number[];
+  let lastToDelete = -1;
+
+  if (retention.maxCount > 0 && ids.length > retention.maxCount) {
+    lastToDelete = candidates[ids.length - retention.maxCount - 1];
+  }
+
+  if (retention.maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - retention.maxAgeDays * DAY_MS).toISOString();
+    const expired = await withStore<IDBValidKey[]>(SNAPSHOT_STORE, 'readonly', (store) =>
+      store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(cutoff, true))
+    );
+    const newestExpired = Math.max(-1, ...(expired as number[]).filter((id) => candidates.includes(id)));
+    lastToDelete = Math.max(lastToDelete, newestExpired);
+  }
+
+  if (lastToDelete >= 0) {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(IDBKeyRange.upperBound(lastToDelete)));
+    notifyListeners();
+  }
+};
+
+const getLatestSnapshot = async (): Promise<SettingsSnapshot | null> => {
+  const ids = await withStore<IDBValidKey[]>(SNAPSHOT_STORE, 'readonly', (store) => store.getAllKeys());
+  if (ids.length === 0) return null;
+  const latest = await withStore<SettingsSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', (store) =>
+    store.get(ids[ids.length - 1])
+  );
+  return latest ? upgradeSnapshot(latest) : null;
+};
+
+/**
+ * Appends a snapshot unless it matches the latest one, which happens when
+ * several synced tabs record the same change.
+ */
+export const recordSnapshot = async (
+  settings: PostProcessingSettings,
+  label: string,
+  retention: SnapshotRetention = loadSnapshotRetention()
+): Promise<void> => {
+  const latest = await getLatestSnapshot();
+  if (latest && diffSettings(latest.settings, settings).length === 0) return;
+
+  const snapshot: Omit<SettingsSnapshot, 'id'> = {
+    label,
+    version: SETTINGS_VERSION,
+    settings: JSON.parse(JSON.stringify(settings)),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.add(snapshot));
+  notifyListeners();
+  await pruneSnapshots(retention);
+};
+
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(id));
+  notifyListeners();
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLook, encodeLook, readLookFragment } from './shareLink';
+import { SETTINGS_VERSION } from './settingsMigrations';
+import { defaultPostProcessingSettings } from './postProcessingSchema';
+import type { PostProcessingSettings } from './postProcessingSchema';
+
+const look: PostProcessingSettings = {
+  ...defaultPostProcessingSettings,
+  toneMapping: { ...defaultPostProcessingSettings.toneMapping, exposure: 1.4 },
+};
+
+const toBase64Url = (text: string) => btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('share links', () => {
+  it('round-trips a look through a compressed link', async () => {
+    const encoded = await encodeLook(look);
+    expect(encoded.startsWith(`${SETTINGS_VERSION}.z.`)).toBe(true);
+
+    const result = await decodeLook(encoded);
+    expect(result).toMatchObject({ ok: true, settings: look, issues: [] });
+  });
+
+  it('reads a plain JSON link', async () => {
+    const result = await decodeLook(`${SETTINGS_VERSION}.j.${toBase64Url(JSON.stringify(look))}`);
+    expect(result).toMatchObject({ ok: true, settings: look });
+  });
+
+  it('reads the look out of a location hash', async () => {
+    const encoded = await encodeLook(look);
+    expect(readLookFragment(`#look=${encoded}`)).toBe(encoded);
+    expect(readLookFragment('#other=1')).toBeNull();
+  });
+
+  it('rejects a link from a newer settings version', async () => {
+    const result = await decodeLook(`${SETTINGS_VERSION + 1}.j.${toBase64Url(JSON.stringify(look))}`);
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects an unknown encoding', async () => {
+    const result = await decodeLook(`${SETTINGS_VERSION}.x.${toBase64Url('{}')}`);
+    expect(result).toMatchObject({ ok: false, error: 'Unknown share link encoding "x"' });
+  });
+
+  it.each([
+    ['an incomplete link', `${SETTINGS_VERSION}.z`],
+    ['corrupt compressed data', `${SETTINGS_VERSION}.z.${toBase64Url('not deflate data')}`],
+    ['invalid JSON', `${SETTINGS_VERSION}.j.${toBase64Url('{"toneMapping":')}`],
+    ['a payload that is not base64', `${SETTINGS_VERSION}.j.%%%`],
+  ])('rejects %s', async (_label, encoded) => {
+    const result = await decodeLook(encoded);
+    expect(result.ok).toBe(false);
+  });
+});
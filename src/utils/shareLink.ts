@@ -0,0 +1,98 @@
+import { SETTINGS_VERSION, migrateSettings } from './settingsMigrations';
+import type { SettingsMigrationResult } from './settingsMigrations';
+import type { PostProcessingSettings } from './postProcessingSchema';
+import { REMOTE_QUERY_PARAM } from './remoteControl';
+
+/**
+ * Shareable look links. The settings travel in the URL fragment as
+ * `#look=<version>.<codec>.<payload>` so they never reach the server:
+ *
+ * - version: settings schema version the link was made with
+ * - codec:   `z` for deflate-compressed JSON, `j` for plain JSON
+ * - payload: base64url-encoded bytes
+ */
+
+const FRAGMENT_KEY = 'look';
+
+const supportsCompression = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay clear of argument limits on large payloads
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const encodeLook = async (settings: PostProcessingSettings): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(settings));
+
+  if (supportsCompression()) {
+    const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+    return `${SETTINGS_VERSION}.z.${toBase64Url(compressed)}`;
+  }
+  return `${SETTINGS_VERSION}.j.${toBase64Url(json)}`;
+};
+
+export const decodeLook = async (encoded: string): Promise<SettingsMigrationResult> => {
+  const [version, codec, payload] = encoded.split('.');
+  if (!version || !codec || !payload) {
+    return { ok: false, error: 'Share link is incomplete' };
+  }
+
+  try {
+    let bytes = fromBase64Url(payload);
+    if (codec === 'z') {
+      if (!supportsCompression()) {
+        return { ok: false, error: 'This browser cannot open compressed share links' };
+      }
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (codec !== 'j') {
+      return { ok: false, error: `Unknown share link encoding "${codec}"` };
+    }
+
+    const settings = JSON.parse(new TextDecoder().decode(bytes));
+    return migrateSettings({ version: Number(version), settings });
+  } catch (error) {
+    return { ok: false, error: `Share link is corrupted: ${(error as Error).message}` };
+  }
+};
+
+/** Reads the encoded look from a location hash such as `#look=3.z.abc` */
+export const readLookFragment = (hash: string = window.location.hash): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(FRAGMENT_KEY);
+};
+
+export const createShareUrl = async (settings: PostProcessingSettings): Promise<string> => {
+  const url = new URL(window.location.href);
+  // Links copied from the remote window should open the hero page
+  url.searchParams.delete(REMOTE_QUERY_PARAM);
+  url.hash = `${FRAGMENT_KEY}=${await encodeLook(settings)}`;
+  return url.toString();
+};
+
+/** Drops the look from the address bar without adding a history entry */
+export const clearLookFragment = () => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  params.delete(FRAGMENT_KEY);
+  const hash = params.toString();
+  window.history.replaceState(
+    window.history.state,
+    '',
+    `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`
+  );
+};